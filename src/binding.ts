@@ -0,0 +1,64 @@
+/**
+ * ModelSignature JavaScript SDK - Response Binding Verification
+ * Offline check that a response text matches the hash recorded in a bound token
+ */
+
+import { ResponseBindingFailure, ResponseBindingVerification, JWTClaims, CanonicalizationProfile } from './types';
+import { decodeToken, hashOutput, timingSafeEqual } from './utils';
+import { CANONICALIZATION_PROFILES } from './canonicalize';
+
+/**
+ * Check offline that a response text is the one a bound token was issued for
+ * Recomputes the hash with the token's recorded canonicalization profile and compares it
+ * in constant time. The token's signature is not checked here; pair this with
+ * `client.verifyTokenLocally(boundToken)` to also prove who issued it.
+ * @param boundToken `bound_token` returned by `bindResponse`
+ * @param responseText Response text to check
+ * @returns Structured result; `reason` says why a check failed
+ */
+export function verifyResponseBinding(boundToken: string, responseText: string): ResponseBindingVerification {
+  let claims: JWTClaims;
+  try {
+    ({ claims } = decodeToken(boundToken));
+  } catch (error) {
+    return failure('MALFORMED_TOKEN', (error as Error).message);
+  }
+
+  if (claims.bound_to_response !== true) {
+    return failure('NOT_BOUND', 'Token is not bound to a response', { claims });
+  }
+
+  const expectedHash = claims.response_hash;
+  if (typeof expectedHash !== 'string' || !expectedHash) {
+    return failure('MISSING_RESPONSE_HASH', 'Bound token has no response_hash claim', { claims });
+  }
+
+  const canonicalization: CanonicalizationProfile = claims.response_canonicalization ?? 'raw';
+  if (!CANONICALIZATION_PROFILES.includes(canonicalization)) {
+    return failure('UNKNOWN_CANONICALIZATION', `Unsupported canonicalization profile '${canonicalization}'`, {
+      claims,
+      expectedHash
+    });
+  }
+
+  let actualHash: string;
+  try {
+    actualHash = hashOutput(responseText, canonicalization);
+  } catch (error) {
+    return failure('CANONICALIZATION_FAILED', (error as Error).message, { claims, canonicalization, expectedHash });
+  }
+
+  const details = { claims, canonicalization, expectedHash, actualHash };
+  if (!timingSafeEqual(actualHash, expectedHash.toLowerCase())) {
+    return failure('HASH_MISMATCH', 'Response text does not match the bound response hash', details);
+  }
+  return { valid: true, ...details };
+}
+
+function failure(
+  reason: ResponseBindingFailure,
+  message: string,
+  details: Partial<ResponseBindingVerification> = {}
+): ResponseBindingVerification {
+  return { valid: false, reason, message, ...details };
+}
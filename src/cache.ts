@@ -0,0 +1,239 @@
+/**
+ * ModelSignature JavaScript SDK - Verification Cache
+ * Stores verification results by `jti` until the token expires
+ */
+
+import { TimeOptions, VerificationResult } from './types';
+import { hashOutput, parseJWT, loadNodeBuiltin, systemClock } from './utils';
+
+export interface CacheEntry {
+  result: VerificationResult;
+  tokenHash: string; // guards against a different token reusing a cached jti
+  expiresAt: number; // epoch milliseconds, never later than the token's exp
+}
+
+/**
+ * Storage backend for cached verification results.
+ * Methods may be synchronous or return promises, so shared stores
+ * (Redis, memcached, ...) can be plugged in.
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * In-memory store with least-recently-used eviction
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+  private maxEntries: number;
+
+  constructor(maxEntries: number = 1000) {
+    this.maxEntries = maxEntries;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * File-backed store (Node.js only) that persists entries as JSON
+ * so results survive process restarts. Expired entries are dropped on load.
+ */
+export class FileCacheStore implements CacheStore {
+  private filePath: string;
+  private entries?: Map<string, CacheEntry>;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entries = await this.load();
+    return entries.get(key);
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const entries = await this.load();
+    entries.set(key, entry);
+    return this.persist();
+  }
+
+  async delete(key: string): Promise<void> {
+    const entries = await this.load();
+    entries.delete(key);
+    return this.persist();
+  }
+
+  async clear(): Promise<void> {
+    this.entries = new Map();
+    return this.persist();
+  }
+
+  private async load(): Promise<Map<string, CacheEntry>> {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    const entries = new Map<string, CacheEntry>();
+    try {
+      const raw = await this.fs().readFile(this.filePath, 'utf8');
+      const data = JSON.parse(raw) as Record<string, CacheEntry>;
+      const now = Date.now();
+      for (const [key, entry] of Object.entries(data)) {
+        if (entry && entry.expiresAt > now) {
+          entries.set(key, entry);
+        }
+      }
+    } catch (error) {
+      // Missing or unreadable cache file, start empty
+    }
+
+    this.entries = this.entries || entries;
+    return this.entries;
+  }
+
+  private persist(): Promise<void> {
+    // Serialize writes so concurrent updates never interleave
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(() => {
+        const data = Object.fromEntries(this.entries || new Map());
+        return this.fs().writeFile(this.filePath, JSON.stringify(data), 'utf8');
+      });
+    return this.writeQueue;
+  }
+
+  private fs(): typeof import('fs').promises {
+    const fs = loadNodeBuiltin<typeof import('fs')>('fs');
+    if (!fs) {
+      throw new Error('FileCacheStore requires a Node.js environment');
+    }
+    return fs.promises;
+  }
+}
+
+/**
+ * Cache of verification results keyed by the token's `jti` claim.
+ * Only valid results are cached, and never beyond the token's `exp`.
+ */
+export class VerificationCache {
+  private store: CacheStore;
+  private stats: CacheStats = { hits: 0, misses: 0 };
+
+  constructor(store: CacheStore = new MemoryCacheStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Look up a cached verification result
+   * @param token JWT token string
+   * @param options Clock that decides whether the entry has expired
+   * @returns Cached result or undefined on a miss
+   */
+  async get(token: string, options: TimeOptions = {}): Promise<VerificationResult | undefined> {
+    const jti = parseJWT(token)?.jti;
+    if (typeof jti !== 'string' || !jti) {
+      this.stats.misses++;
+      return undefined;
+    }
+
+    const entry = await this.store.get(jti);
+    if (!entry || entry.tokenHash !== hashOutput(token)) {
+      this.stats.misses++;
+      return undefined;
+    }
+
+    if (entry.expiresAt <= (options.clock || systemClock).now()) {
+      await this.store.delete(jti);
+      this.stats.misses++;
+      return undefined;
+    }
+
+    this.stats.hits++;
+    return entry.result;
+  }
+
+  /**
+   * Cache a verification result until the token expires
+   * @param token JWT token string
+   * @param result Verification result for the token
+   * @param options Clock that decides whether the token has already expired
+   */
+  async set(token: string, result: VerificationResult, options: TimeOptions = {}): Promise<void> {
+    const claims = result.claims;
+    if (!result.valid || !claims || !claims.jti || typeof claims.exp !== 'number') {
+      return;
+    }
+
+    const expiresAt = claims.exp * 1000;
+    if (expiresAt <= (options.clock || systemClock).now()) {
+      return;
+    }
+
+    await this.store.set(claims.jti, {
+      result,
+      tokenHash: hashOutput(token),
+      expiresAt
+    });
+  }
+
+  /**
+   * Remove all cached results
+   */
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+
+  /**
+   * Get hit and miss counters
+   */
+  getStats(): CacheStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Reset hit and miss counters
+   */
+  resetStats(): void {
+    this.stats = { hits: 0, misses: 0 };
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * ModelSignature JavaScript SDK - Response Canonicalization
+ * Named normalization profiles applied before hashing, so harmless differences keep the hash stable
+ */
+
+import { CanonicalizationProfile, ModelSignatureError } from './types';
+
+export const CANONICALIZATION_PROFILES: readonly CanonicalizationProfile[] = ['raw', 'text-normalized', 'json-canonical'];
+
+/**
+ * Bring response text into the canonical form of a profile
+ * Canonical forms are fixed points: canonicalizing twice gives the same text.
+ * @param text Response text
+ * @param profile Canonicalization profile, defaults to 'raw'
+ * @returns Canonical text
+ */
+export function canonicalize(text: string, profile: CanonicalizationProfile = 'raw'): string {
+  switch (profile) {
+    case 'raw':
+      return text;
+    case 'text-normalized':
+      return normalizeText(text);
+    case 'json-canonical': {
+      let value: unknown;
+      try {
+        value = JSON.parse(text);
+      } catch (error) {
+        throw new ModelSignatureError(
+          'Response is not valid JSON and cannot use the json-canonical profile',
+          'CANONICALIZATION_FAILED',
+          undefined,
+          { cause: error }
+        );
+      }
+      return canonicalizeJSON(value);
+    }
+    default:
+      throw new ModelSignatureError(
+        `Unknown canonicalization profile '${profile}', expected one of: ${CANONICALIZATION_PROFILES.join(', ')}`,
+        'INVALID_CANONICALIZATION'
+      );
+  }
+}
+
+/**
+ * Serialize a JSON value per RFC 8785 (JSON Canonicalization Scheme)
+ * Object keys are sorted by UTF-16 code units, with no insignificant whitespace,
+ * and numbers use the ECMAScript shortest round-trip form.
+ * @param value JSON-compatible value
+ * @returns Canonical JSON text
+ */
+export function canonicalizeJSON(value: unknown): string {
+  if (value === null || typeof value === 'boolean' || typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new ModelSignatureError(`Cannot canonicalize non-finite number ${value}`, 'CANONICALIZATION_FAILED');
+    }
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalizeJSON(item)).join(',')}]`;
+  }
+  if (typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const members = Object.keys(record)
+      .filter(key => record[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalizeJSON(record[key])}`);
+    return `{${members.join(',')}}`;
+  }
+  throw new ModelSignatureError(`Cannot canonicalize value of type ${typeof value}`, 'CANONICALIZATION_FAILED');
+}
+
+function normalizeText(text: string): string {
+  return text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .normalize('NFC')
+    .replace(/\s+$/, '');
+}
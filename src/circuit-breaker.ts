@@ -0,0 +1,105 @@
+/**
+ * ModelSignature JavaScript SDK - Circuit Breaker
+ * Fails fast while the ModelSignature API is unavailable
+ */
+
+import { CircuitBreakerOptions } from './types';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Tracks consecutive failures of the API.
+ * - closed: requests flow normally
+ * - open: requests are rejected without touching the network
+ * - half-open: after `resetTimeout`, a limited number of trial requests decide
+ *   whether to close again (success) or re-open (failure)
+ */
+export class CircuitBreaker {
+  private options: Required<CircuitBreakerOptions>;
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialCalls = 0;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.options = {
+      failureThreshold: options.failureThreshold ?? 5,
+      resetTimeout: options.resetTimeout ?? 30000,
+      halfOpenMaxCalls: options.halfOpenMaxCalls ?? 1
+    };
+  }
+
+  /**
+   * Current state, moving from open to half-open once the reset timeout has passed
+   */
+  getState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.options.resetTimeout) {
+      this.state = 'half-open';
+      this.trialCalls = 0;
+    }
+    return this.state;
+  }
+
+  /**
+   * Reserve permission to send a request
+   * @returns false if the request should fail fast
+   */
+  allowRequest(): boolean {
+    const state = this.getState();
+    if (state === 'closed') {
+      return true;
+    }
+    if (state === 'half-open' && this.trialCalls < this.options.halfOpenMaxCalls) {
+      this.trialCalls++;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Record a request that reached a healthy API
+   */
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.trialCalls = 0;
+  }
+
+  /**
+   * Record a request that failed because the API was unavailable
+   */
+  recordFailure(): void {
+    if (this.state === 'half-open') {
+      this.open();
+      return;
+    }
+
+    this.failures++;
+    if (this.failures >= this.options.failureThreshold) {
+      this.open();
+    }
+  }
+
+  /**
+   * Give back a trial slot whose request was cancelled before the API answered
+   * Without this an abandoned trial would keep the breaker half-open for good.
+   */
+  releaseTrial(): void {
+    if (this.state === 'half-open' && this.trialCalls > 0) {
+      this.trialCalls--;
+    }
+  }
+
+  /**
+   * Force the breaker back to closed
+   */
+  reset(): void {
+    this.recordSuccess();
+  }
+
+  private open(): void {
+    this.state = 'open';
+    this.openedAt = Date.now();
+    this.trialCalls = 0;
+  }
+}
@@ -0,0 +1,341 @@
+#!/usr/bin/env node
+/**
+ * ModelSignature JavaScript SDK - Command Line Interface
+ * Inspect, verify and policy-check tokens; exit codes let CI jobs gate on the outcome
+ */
+
+import { ModelSignatureClient } from './client';
+import { PolicyEnforcer } from './policy';
+import { loadConfig, ResolvedConfig } from './config';
+import { parsePolicyDocument, validatePolicySection } from './policy-file';
+import { FetchFunction, JWTClaims, JWTHeader, ModelSignatureError, PolicyConfig, PolicyViolation, PolicyViolationError } from './types';
+import { decodeToken, getTokenAge, isTokenExpired, hashOutput, loadNodeBuiltin } from './utils';
+
+/**
+ * Process exit codes
+ */
+export const ExitCode = {
+  ALLOW: 0, // valid token, policy allowed, or command succeeded
+  DENY: 1, // invalid or expired token, or policy denied
+  USAGE: 2, // bad arguments or unreadable input
+  ERROR: 3 // API or runtime failure
+} as const;
+
+export interface CliIO {
+  stdout(text: string): void;
+  stderr(text: string): void;
+  readStdin(): Promise<string>;
+  readFile(path: string): Promise<string>;
+  env: Record<string, string | undefined>;
+  fetch?: FetchFunction; // transport override, used by tests
+}
+
+interface ParsedArgs {
+  positionals: string[];
+  flags: Record<string, string | boolean>;
+}
+
+class UsageError extends Error {}
+
+const VALUE_FLAGS = new Set(['config', 'api-key', 'base-url', 'timeout', 'profile']);
+const BOOLEAN_FLAGS = new Set(['json', 'offline', 'help']);
+
+const USAGE = `Usage: modelsignature <command> [options]
+
+Commands:
+  inspect [token]                  Decode the header and claims, show age and expiry
+  verify [token] [--offline]       Verify a token with the API (or offline against the JWKS)
+  policy check [token] [--config <file>]
+                                   Enforce a policy document (JSON or YAML) or a bare JSON
+                                   PolicyConfig, merged over the profile's default policy
+  hash [file]                      SHA-256 of a file, or of stdin when omitted
+
+A token argument of "-" or no token reads the token from stdin.
+
+Options:
+  --json               Print machine-readable JSON
+  --api-key <key>      API key (default: $MODELSIGNATURE_API_KEY)
+  --base-url <url>     API base URL (default: $MODELSIGNATURE_API_URL)
+  --timeout <ms>       Request timeout in milliseconds
+  --profile <name>     Config file profile (default: $MODELSIGNATURE_PROFILE)
+  -h, --help           Show this help
+
+Exit codes: 0 allow, 1 deny, 2 usage error, 3 API or runtime error`;
+
+/**
+ * Run the CLI
+ * @param argv Arguments without the node binary and script path
+ * @param io Console, filesystem and environment access
+ * @returns Process exit code
+ */
+export async function runCli(argv: string[], io: CliIO = nodeIO()): Promise<number> {
+  let args: ParsedArgs;
+  try {
+    args = parseArgs(argv);
+  } catch (error) {
+    io.stderr(`${(error as Error).message}\n\n${USAGE}\n`);
+    return ExitCode.USAGE;
+  }
+
+  const [command, ...rest] = args.positionals;
+  if (args.flags.help) {
+    io.stdout(`${USAGE}\n`);
+    return ExitCode.ALLOW;
+  }
+  if (!command) {
+    io.stderr(`${USAGE}\n`);
+    return ExitCode.USAGE;
+  }
+
+  try {
+    switch (command) {
+      case 'inspect':
+        return await inspect(await readToken(rest[0], io), args, io);
+      case 'verify':
+        return await verify(await readToken(rest[0], io), args, io);
+      case 'policy':
+        if (rest[0] !== 'check') {
+          throw new UsageError(`Unknown policy subcommand: ${rest[0] ?? '(none)'}`);
+        }
+        return await policyCheck(await readToken(rest[1], io), args, io);
+      case 'hash':
+        return await hash(rest[0], args, io);
+      default:
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError || (error instanceof ModelSignatureError && error.code === 'INVALID_CONFIG')) {
+      io.stderr(`${error.message}\n\n${USAGE}\n`);
+      return ExitCode.USAGE;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    if (args.flags.json) {
+      const code = error instanceof ModelSignatureError ? error.code : undefined;
+      io.stdout(`${JSON.stringify({ error: message, code }, null, 2)}\n`);
+    } else {
+      io.stderr(`Error: ${message}\n`);
+    }
+    return ExitCode.ERROR;
+  }
+}
+
+async function inspect(token: string, args: ParsedArgs, io: CliIO): Promise<number> {
+  const { header, claims } = decodeTokenArgument(token);
+  const expired = isTokenExpired(token);
+  const age = getTokenAge(token);
+  const expiresIn = typeof claims.exp === 'number' ? claims.exp - Math.floor(Date.now() / 1000) : null;
+
+  if (args.flags.json) {
+    print(io, { header, claims, age, expired, expiresIn });
+  } else {
+    io.stdout([
+      `Header:     ${JSON.stringify(header)}`,
+      `Claims:     ${JSON.stringify(claims, null, 2).replace(/\n/g, '\n            ')}`,
+      `Age:        ${age === null ? 'unknown' : `${age}s`}`,
+      `Expires:    ${expiresIn === null ? 'unknown' : expired ? `expired ${-expiresIn}s ago` : `in ${expiresIn}s`}`
+    ].join('\n') + '\n');
+  }
+  return expired ? ExitCode.DENY : ExitCode.ALLOW;
+}
+
+async function verify(token: string, args: ParsedArgs, io: CliIO): Promise<number> {
+  decodeTokenArgument(token);
+  const client = new ModelSignatureClient(resolveConfig(args, io).client);
+  const result = args.flags.offline ? await client.verifyTokenLocally(token) : await client.verifyToken(token);
+
+  if (args.flags.json) {
+    print(io, result);
+  } else if (result.valid) {
+    io.stdout([
+      'Token is valid',
+      `Model:      ${result.model ? `${result.model.name} (${result.model.id})` : result.claims?.model_id ?? 'unknown'}`,
+      `Provider:   ${result.provider ? `${result.provider.name} (${result.provider.id})` : result.claims?.provider_id ?? 'unknown'}`
+    ].join('\n') + '\n');
+  } else {
+    io.stdout(`Token is invalid: ${result.error ?? 'unknown reason'}\n`);
+  }
+  return result.valid ? ExitCode.ALLOW : ExitCode.DENY;
+}
+
+async function policyCheck(token: string, args: ParsedArgs, io: CliIO): Promise<number> {
+  const file = stringFlag(args, 'config');
+  let policy: PolicyConfig | undefined;
+  if (file) {
+    let text: string;
+    try {
+      text = await io.readFile(file);
+    } catch (error) {
+      throw new UsageError(`Unable to read policy config ${file}: ${(error as Error).message}`);
+    }
+    policy = parsePolicyFile(text, file);
+  }
+
+  const config = resolveConfig(args, io, policy);
+  if (!file && Object.keys(config.policy).length === 0) {
+    throw new UsageError('policy check requires --config <file> or a profile with a policy');
+  }
+
+  decodeTokenArgument(token);
+  const enforcer = new PolicyEnforcer(new ModelSignatureClient(config.client), config.policy, { cache: false });
+  let allowed: boolean;
+  let reasons: string[];
+  let violations: PolicyViolation[];
+  try {
+    ({ allowed, reasons, violations } = await enforcer.enforcePolicy(token));
+  } catch (error) {
+    if (!(error instanceof PolicyViolationError)) {
+      throw error;
+    }
+    allowed = false;
+    reasons = error.violations;
+    violations = error.policyViolations;
+  }
+
+  if (args.flags.json) {
+    print(io, { allowed, reasons, violations });
+  } else {
+    io.stdout(allowed ? 'Policy: ALLOW\n' : `Policy: DENY\n${reasons.map(reason => `  - ${reason}`).join('\n')}\n`);
+  }
+  return allowed ? ExitCode.ALLOW : ExitCode.DENY;
+}
+
+async function hash(file: string | undefined, args: ParsedArgs, io: CliIO): Promise<number> {
+  let content: string;
+  try {
+    content = file && file !== '-' ? await io.readFile(file) : await io.readStdin();
+  } catch (error) {
+    throw new UsageError(`Unable to read ${file}: ${(error as Error).message}`);
+  }
+
+  const digest = hashOutput(content);
+  if (args.flags.json) {
+    print(io, { algorithm: 'sha256', hash: digest, file: file && file !== '-' ? file : null });
+  } else {
+    io.stdout(`${digest}\n`);
+  }
+  return ExitCode.ALLOW;
+}
+
+/**
+ * Policy documents (with a `version`) and bare JSON PolicyConfig objects are both schema-checked
+ */
+function parsePolicyFile(text: string, file: string): PolicyConfig {
+  const yaml = /\.ya?ml$/i.test(file);
+  if (!yaml) {
+    let value: any;
+    try {
+      value = JSON.parse(text);
+    } catch (error) {
+      throw new UsageError(`Unable to read policy config ${file}: ${(error as Error).message}`);
+    }
+    if (!value || typeof value !== 'object' || !('version' in value)) {
+      try {
+        return validatePolicySection(value, file);
+      } catch (error) {
+        throw new UsageError((error as Error).message);
+      }
+    }
+  }
+
+  try {
+    return parsePolicyDocument(text, yaml ? 'yaml' : 'json', file).policy;
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+}
+
+function resolveConfig(args: ParsedArgs, io: CliIO, policy?: PolicyConfig): ResolvedConfig {
+  const timeout = stringFlag(args, 'timeout');
+  return loadConfig({
+    env: io.env,
+    profile: stringFlag(args, 'profile'),
+    client: {
+      apiKey: stringFlag(args, 'api-key'),
+      apiBaseUrl: stringFlag(args, 'base-url'),
+      timeout: timeout !== undefined ? Number(timeout) : undefined,
+      fetch: io.fetch
+    },
+    policy
+  });
+}
+
+async function readToken(argument: string | undefined, io: CliIO): Promise<string> {
+  const token = (argument && argument !== '-' ? argument : await io.readStdin()).trim();
+  if (!token) {
+    throw new UsageError('No token given');
+  }
+  return token;
+}
+
+/**
+ * A token that does not decode is bad input, not a denial or an API failure
+ */
+function decodeTokenArgument(token: string): { header: JWTHeader; claims: JWTClaims } {
+  try {
+    return decodeToken(token);
+  } catch (error) {
+    throw new UsageError(`Malformed token: ${(error as Error).message}`);
+  }
+}
+
+function print(io: CliIO, value: unknown): void {
+  io.stdout(`${JSON.stringify(value, null, 2)}\n`);
+}
+
+function stringFlag(args: ParsedArgs, name: string): string | undefined {
+  const value = args.flags[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const flags: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '-h') {
+      flags.help = true;
+    } else if (arg.startsWith('--')) {
+      const [name, inline] = arg.slice(2).split(/=(.*)/s, 2);
+      if (BOOLEAN_FLAGS.has(name)) {
+        flags[name] = true;
+      } else if (!VALUE_FLAGS.has(name)) {
+        throw new UsageError(`Unknown option: --${name}`);
+      } else if (inline !== undefined) {
+        flags[name] = inline;
+      } else if (i + 1 < argv.length) {
+        flags[name] = argv[++i];
+      } else {
+        throw new UsageError(`Missing value for --${name}`);
+      }
+    } else if (arg.length > 1 && arg.startsWith('-')) {
+      throw new UsageError(`Unknown option: ${arg}`);
+    } else {
+      positionals.push(arg);
+    }
+  }
+  return { positionals, flags };
+}
+
+function nodeIO(): CliIO {
+  const fs = loadNodeBuiltin<typeof import('fs')>('fs');
+  return {
+    stdout: text => process.stdout.write(text),
+    stderr: text => process.stderr.write(text),
+    readStdin: async () => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of process.stdin) {
+        chunks.push(Buffer.from(chunk));
+      }
+      return Buffer.concat(chunks).toString('utf8');
+    },
+    readFile: path => fs!.promises.readFile(path, 'utf8'),
+    env: process.env
+  };
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
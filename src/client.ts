@@ -9,71 +9,406 @@ import {
   VerificationResult,
   ResponseBinding,
   ModelSignatureError,
-  JWTClaims,
+  ModelSignatureErrorDetails,
+  NetworkError,
+  TimeoutError,
+  RateLimitError,
+  AuthenticationError,
+  NotFoundError,
+  ServerError,
   ModelInfo,
   ProviderInfo,
-  BundleCheck
+  BundleCheck,
+  JSONWebKeySet,
+  FetchFunction,
+  RequestContext,
+  RequestInterceptor,
+  InterceptorShortCircuit,
+  BatchOptions,
+  BatchVerificationResult,
+  Deployment,
+  OperationResult,
+  VerificationRecord,
+  RegisteredModel,
+  PublicModel,
+  PublicProvider,
+  SearchResult,
+  PaginatedResponse,
+  PaginationOptions,
+  CallOptions,
+  BindResponseOptions
 } from './types';
-import { sleep, getBackoffDelay, isValidTokenFormat } from './utils';
+import {
+  sleep,
+  getBackoffDelay,
+  decodeToken,
+  getCurrentTime,
+  systemClock,
+  DEFAULT_CLOCK_TOLERANCE,
+  mapWithConcurrency,
+  parseRetryAfter,
+  generateIdempotencyKey,
+  isRetryableStatus,
+  getDeadline,
+  throwIfCancelled,
+  getCancellationError,
+  isCancellationError,
+  withCancellation,
+  redactTokens
+} from './utils';
+import { canonicalize } from './canonicalize';
+import { JWKSCache, isSupportedAlgorithm, verifyJWSSignature } from './jwks';
+import * as schema from './schema';
+import { CircuitBreaker, CircuitState } from './circuit-breaker';
+import { EventBus, SDKEventType, SDKEventListener } from './events';
+import { DEFAULT_API_BASE_URL, LoadConfigOptions, loadConfig } from './config';
+
+const globalFetch: FetchFunction = (input, init) => fetch(input, init);
+
+interface InflightVerification {
+  promise: Promise<VerificationResult>;
+  controller: AbortController;
+  waiters: number;
+}
+
+interface RequestOptions extends RequestInit {
+  idempotent?: boolean; // safe to retry without an Idempotency-Key even when sent as POST
+}
+
+interface TokenRoute {
+  endpoint: string;
+  options: RequestOptions;
+}
+
+function isShortCircuit(outcome: unknown): outcome is InterceptorShortCircuit {
+  return typeof outcome === 'object' && outcome !== null && 'respondWith' in outcome;
+}
+
+/**
+ * Copy request headers for event listeners, hiding the API key
+ */
+function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  const copy: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    copy[name] = name.toLowerCase() === 'authorization' ? '[REDACTED]' : value;
+  }
+  return copy;
+}
+
+/**
+ * Redact tokens in every string of a parsed response body
+ */
+function redactBody(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return redactTokens(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactBody);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactBody(item)]));
+  }
+  return value;
+}
+
+/**
+ * Copy an underlying error with tokens redacted from its message, stack and causes,
+ * since a fetch failure on a path-form URL names the token
+ */
+function redactCause(error: unknown): unknown {
+  if (!(error instanceof Error)) {
+    return typeof error === 'string' ? redactTokens(error) : error;
+  }
+  const copy: Error & { cause?: unknown } = new Error(redactTokens(error.message));
+  copy.name = error.name;
+  copy.stack = error.stack && redactTokens(error.stack);
+  const cause = (error as { cause?: unknown }).cause;
+  if (cause !== undefined) {
+    copy.cause = redactCause(cause);
+  }
+  return copy;
+}
+
+/**
+ * Map an HTTP error status to the matching error class
+ */
+function createHttpError(
+  status: number,
+  message: string,
+  retryAfter: number | undefined,
+  details: ModelSignatureErrorDetails
+): ModelSignatureError {
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(message, status, details);
+  }
+  if (status === 404) {
+    return new NotFoundError(message, details);
+  }
+  if (status === 429) {
+    return new RateLimitError(message, retryAfter, details);
+  }
+  if (status >= 500) {
+    return new ServerError(message, status, details);
+  }
+  return new ModelSignatureError(message, 'HTTP_ERROR', status, details);
+}
 
 export class ModelSignatureClient {
+  readonly events = new EventBus();
   private config: ModelSignatureConfigRequired;
   private apiKey?: string;
+  private jwks: JWKSCache;
+  private fetchImpl: FetchFunction;
+  private interceptors: RequestInterceptor[];
+  private inflight = new Map<string, InflightVerification>();
+  private breaker: CircuitBreaker | null;
+  private legacyTokenPaths = false; // set once an 'auto' client finds the body endpoints missing
 
   constructor(config: ModelSignatureConfig = {}) {
     this.config = {
       apiKey: config.apiKey,
-      apiBaseUrl: config.apiBaseUrl || 'https://modelsignature-api-541734326273.us-central1.run.app',
+      apiBaseUrl: config.apiBaseUrl || DEFAULT_API_BASE_URL,
       timeout: config.timeout || 10000,
-      retries: config.retries || 3
+      retries: config.retries ?? 3,
+      retryPolicy: {
+        isRetryableStatus,
+        baseDelay: 1000,
+        maxDelay: 10000,
+        maxElapsedTime: 30000,
+        respectRetryAfter: true,
+        ...config.retryPolicy
+      },
+      idempotencyKeys: config.idempotencyKeys ?? true,
+      jwksUrl: config.jwksUrl || '/.well-known/jwks.json',
+      issuer: config.issuer,
+      jwksCacheTtl: config.jwksCacheTtl || 10 * 60 * 1000,
+      tokenTransport: config.tokenTransport || 'auto',
+      clock: config.clock || systemClock,
+      clockTolerance: config.clockTolerance ?? DEFAULT_CLOCK_TOLERANCE
     };
     this.apiKey = config.apiKey;
+    this.fetchImpl = config.fetch || globalFetch;
+    this.interceptors = [...(config.interceptors || [])];
+    this.breaker = config.circuitBreaker === false ? null : new CircuitBreaker(config.circuitBreaker);
+    this.jwks = this.createJWKSCache();
+  }
+
+  /**
+   * Create a client from explicit options, environment variables and a config file profile
+   * Precedence: explicit options, then MODELSIGNATURE_* variables, then the profile, then defaults.
+   * @param options Explicit options and profile selection
+   * @returns Client with validated configuration
+   */
+  static fromEnv(options: LoadConfigOptions = {}): ModelSignatureClient {
+    return new ModelSignatureClient(loadConfig(options).client);
+  }
+
+  /**
+   * Get the circuit breaker state
+   * @returns Current state, or null if the circuit breaker is disabled
+   */
+  getCircuitState(): CircuitState | null {
+    return this.breaker ? this.breaker.getState() : null;
+  }
+
+  /**
+   * Subscribe to lifecycle events of this client and the policy enforcers using it
+   * @param type Event name
+   * @param listener Called synchronously with the event payload
+   * @returns Function that removes the listener again
+   */
+  on<K extends SDKEventType>(type: K, listener: SDKEventListener<K>): () => void {
+    return this.events.on(type, listener);
+  }
+
+  /**
+   * Register a request/response interceptor
+   * Interceptors run in registration order on every attempt, including retries.
+   * @param interceptor Interceptor to add
+   * @returns Function that removes the interceptor again
+   */
+  use(interceptor: RequestInterceptor): () => void {
+    this.interceptors.push(interceptor);
+    return () => {
+      const index = this.interceptors.indexOf(interceptor);
+      if (index !== -1) {
+        this.interceptors.splice(index, 1);
+      }
+    };
   }
 
   /**
    * Verify a JWT token and return detailed information
    * @param token JWT token string
+   * @param options Cancellation signal and deadline
    * @returns Verification result with claims, model, and provider info
    */
-  async verifyToken(token: string): Promise<VerificationResult> {
-    if (!isValidTokenFormat(token)) {
-      throw new ModelSignatureError('Invalid token format', 'INVALID_FORMAT');
+  async verifyToken(token: string, options: CallOptions = {}): Promise<VerificationResult> {
+    decodeToken(token); // throws TokenDecodeError (INVALID_FORMAT) describing a malformed token
+    throwIfCancelled(options);
+
+    // Concurrent verifications of the same token share one request, which is
+    // only aborted once every caller waiting on it has cancelled; later callers start afresh
+    let entry = this.inflight.get(token);
+    if (!entry || entry.controller.signal.aborted) {
+      const controller = new AbortController();
+      const promise = this.tokenRequest({
+        endpoint: '/api/v1/jwt/verify',
+        options: {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token }),
+          idempotent: true
+        }
+      }, {
+        endpoint: `/api/v1/jwt/verify/${token}`,
+        options: { method: 'GET' }
+      }, schema.verificationResult, { signal: controller.signal }, '/api/v1/jwt/verify').finally(() => {
+        if (this.inflight.get(token) === created) {
+          this.inflight.delete(token);
+        }
+      });
+      const created = { promise, controller, waiters: 0 };
+      entry = created;
+      this.inflight.set(token, entry);
     }
 
-    return this.makeRequest(`/api/v1/jwt/verify/${token}`, {
-      method: 'GET'
+    const shared = entry;
+    shared.waiters++;
+    return withCancellation(shared.promise, options, () => {
+      shared.waiters--;
+      if (shared.waiters === 0) {
+        shared.controller.abort();
+      }
+    });
+  }
+
+  /**
+   * Verify many JWT tokens with bounded concurrency
+   * Duplicate tokens are verified once; failures are reported per token instead of rejecting the batch.
+   * @param tokens JWT token strings
+   * @param options Batch options, cancellation signal and deadline
+   * @returns One entry per input token, in input order
+   */
+  async verifyTokens(
+    tokens: string[],
+    options: BatchOptions & CallOptions = {}
+  ): Promise<BatchVerificationResult[]> {
+    const { concurrency, ...callOptions } = options;
+    const unique = Array.from(new Set(tokens));
+    const entries = await mapWithConcurrency(unique, concurrency ?? 5, async (token) => {
+      try {
+        return { token, result: await this.verifyToken(token, callOptions) };
+      } catch (error) {
+        return { token, error: error as Error };
+      }
     });
+
+    const byToken = new Map(entries.map(entry => [entry.token, entry]));
+    return tokens.map(token => ({ ...byToken.get(token)! }));
+  }
+
+  /**
+   * Verify a JWT token offline against the issuer's cached public keys
+   * Checks the signature, `exp`, `iat`, `nbf` and `iss` without calling the verify endpoint,
+   * using the configured clock and clock tolerance.
+   * The key set is fetched once and refetched on TTL expiry or an unknown `kid`.
+   * @param token JWT token string
+   * @param options Cancellation signal and deadline (applies to fetching the key set)
+   * @returns Verification result with claims (model and provider info are not available offline)
+   */
+  async verifyTokenLocally(token: string, options: CallOptions = {}): Promise<VerificationResult> {
+    const { header, claims, signature, signingInput } = decodeToken(token);
+
+    if (!isSupportedAlgorithm(header.alg)) {
+      return { valid: false, error: `Unsupported signing algorithm: ${header.alg}` };
+    }
+
+    let key: CryptoKey | null;
+    try {
+      key = await withCancellation(this.jwks.getKey(header.kid, header.alg), options);
+    } catch (error) {
+      if (error instanceof ModelSignatureError) {
+        throw error;
+      }
+      // WebCrypto rejected the published key (e.g. a DOMException for malformed key data)
+      return { valid: false, error: `Invalid signing key for kid '${header.kid ?? 'none'}': ${(error as Error).message}` };
+    }
+    if (!key) {
+      return { valid: false, error: `No signing key found for kid '${header.kid ?? 'none'}'` };
+    }
+
+    const signatureValid = await verifyJWSSignature(key, header.alg, signingInput, signature);
+    if (!signatureValid) {
+      return { valid: false, error: 'Invalid token signature' };
+    }
+
+    const now = getCurrentTime(this.config);
+    const tolerance = this.config.clockTolerance;
+    if (typeof claims.exp !== 'number' || claims.exp + tolerance < now) {
+      return { valid: false, claims, error: 'Token expired' };
+    }
+
+    if (typeof claims.iat !== 'number' || claims.iat - tolerance > now) {
+      return { valid: false, claims, error: 'Token issued in the future' };
+    }
+
+    if (typeof claims.nbf === 'number' && claims.nbf - tolerance > now) {
+      return { valid: false, claims, error: 'Token not yet valid' };
+    }
+
+    const expectedIssuer = this.config.issuer || this.config.apiBaseUrl;
+    if (claims.iss !== expectedIssuer) {
+      return { valid: false, claims, error: `Unexpected token issuer: ${claims.iss ?? 'none'}` };
+    }
+
+    return { valid: true, claims };
   }
 
   /**
    * Bind a JWT token to a specific response text
+   * With a canonicalization profile, the canonical text is sent and the profile is recorded
+   * in the bound token so verifiers hash the same way.
    * @param token Original JWT token
    * @param responseText The model's response text
+   * @param options Canonicalization profile, cancellation signal and deadline
    * @returns Response binding with bound token and verification URL
    */
-  async bindResponse(token: string, responseText: string): Promise<ResponseBinding> {
-    if (!isValidTokenFormat(token)) {
-      throw new ModelSignatureError('Invalid token format', 'INVALID_FORMAT');
-    }
+  async bindResponse(token: string, responseText: string, options: BindResponseOptions = {}): Promise<ResponseBinding> {
+    decodeToken(token); // throws TokenDecodeError (INVALID_FORMAT) describing a malformed token
 
     if (!responseText || typeof responseText !== 'string') {
       throw new ModelSignatureError('Response text must be a non-empty string', 'INVALID_RESPONSE');
     }
 
-    return this.makeRequest(`/api/v1/jwt/${token}/bind-response`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        response_text: responseText
-      })
-    });
+    const { canonicalization = 'raw', ...callOptions } = options;
+    const payload = canonicalization === 'raw'
+      ? { response_text: responseText }
+      : { response_text: canonicalize(responseText, canonicalization), canonicalization };
+
+    const headers = { 'Content-Type': 'application/json' };
+    const binding = await this.tokenRequest({
+      endpoint: '/api/v1/jwt/bind-response',
+      options: {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ token, ...payload })
+      }
+    }, {
+      endpoint: `/api/v1/jwt/${token}/bind-response`,
+      options: {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(payload)
+      }
+    }, schema.responseBinding, callOptions, '/api/v1/jwt/bind-response');
+    return { ...binding, canonicalization: binding.canonicalization ?? canonicalization };
   }
 
   /**
    * Register a new deployment
    * @param data Deployment registration data
+   * @param options Cancellation signal and deadline
    * @returns Deployment information
    */
   async registerDeployment(data: {
@@ -83,68 +418,77 @@ export class ModelSignatureClient {
     certificate_fingerprint: string;
     deployment_type?: string;
     metadata?: Record<string, any>;
-  }): Promise<any> {
-    return this.makeRequest('/api/v1/deployments', {
+  }, options: CallOptions = {}): Promise<Deployment> {
+    return this.request('/api/v1/deployments', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
       },
       body: JSON.stringify(data)
-    });
+    }, schema.deployment, options);
   }
 
   /**
    * List all deployments for the current provider
+   * @param options Cancellation signal and deadline
    * @returns List of deployments
    */
-  async listDeployments(): Promise<any[]> {
-    return this.makeRequest('/api/v1/deployments', {
+  async listDeployments(options: CallOptions = {}): Promise<Deployment[]> {
+    return this.request('/api/v1/deployments', {
       method: 'GET'
-    });
+    }, schema.array(schema.deployment), options);
   }
 
   /**
    * Allow a deployment to serve a specific model
    * @param modelId Model ID
    * @param deploymentId Deployment ID
+   * @param options Cancellation signal and deadline
    * @returns Authorization result
    */
-  async allowDeploymentForModel(modelId: string, deploymentId: string): Promise<any> {
-    return this.makeRequest(`/api/v1/models/${modelId}/deployments/${deploymentId}/allow`, {
+  async allowDeploymentForModel(
+    modelId: string,
+    deploymentId: string,
+    options: CallOptions = {}
+  ): Promise<OperationResult> {
+    return this.request(`/api/v1/models/${modelId}/deployments/${deploymentId}/allow`, {
       method: 'POST'
-    });
+    }, schema.operationResult, options);
   }
 
   /**
    * Update deployment status
    * @param deploymentId Deployment ID
    * @param status New status
+   * @param options Cancellation signal and deadline
    * @returns Updated deployment
    */
-  async updateDeploymentStatus(deploymentId: string, status: string): Promise<any> {
-    return this.makeRequest(`/api/v1/deployments/${deploymentId}/status`, {
+  async updateDeploymentStatus(deploymentId: string, status: string, options: CallOptions = {}): Promise<Deployment> {
+    return this.request(`/api/v1/deployments/${deploymentId}/status`, {
       method: 'PUT',
       headers: {
         'Content-Type': 'application/json'
       },
       body: JSON.stringify({ status })
-    });
+    }, schema.deployment, options);
   }
 
   /**
    * Delete a deployment
    * @param deploymentId Deployment ID
+   * @param options Cancellation signal and deadline
    * @returns Deletion result
    */
-  async deleteDeployment(deploymentId: string): Promise<any> {
-    return this.makeRequest(`/api/v1/deployments/${deploymentId}`, {
+  async deleteDeployment(deploymentId: string, options: CallOptions = {}): Promise<OperationResult> {
+    return this.request(`/api/v1/deployments/${deploymentId}`, {
       method: 'DELETE'
-    });
+    }, schema.operationResult, options);
   }
 
   /**
    * Create a verification with mTLS headers
    * @param data Verification data with mTLS headers
+   * @param options Cancellation signal and deadline
    * @returns Verification result
    */
   async createVerificationWithMtls(data: {
@@ -155,19 +499,20 @@ export class ModelSignatureClient {
     client_cert_subject?: string;
     client_cert_issuer?: string;
     metadata?: Record<string, any>;
-  }): Promise<any> {
-    return this.makeRequest('/api/v1/create-verification', {
+  }, options: CallOptions = {}): Promise<VerificationRecord> {
+    return this.request('/api/v1/create-verification', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
       },
       body: JSON.stringify(data)
-    });
+    }, schema.verificationRecord, options);
   }
 
   /**
    * Register a new model
    * @param data Model registration data
+   * @param options Cancellation signal and deadline
    * @returns Model information
    */
   async registerModel(data: {
@@ -181,20 +526,21 @@ export class ModelSignatureClient {
     capabilities?: string[];
     trust_level?: string;
     metadata?: Record<string, any>;
-  }): Promise<any> {
-    return this.makeRequest('/api/v1/models', {
+  }, options: CallOptions = {}): Promise<RegisteredModel> {
+    return this.request('/api/v1/models', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
       },
       body: JSON.stringify(data)
-    });
+    }, schema.registeredModel, options);
   }
 
   /**
    * Search for models and providers
    * @param query Search query
    * @param options Search options
+   * @param callOptions Cancellation signal and deadline
    * @returns Search results
    */
   async search(query: string, options: {
@@ -205,7 +551,7 @@ export class ModelSignatureClient {
     filter_trust_level?: string;
     sort_by?: string;
     sort_order?: 'asc' | 'desc';
-  } = {}): Promise<any> {
+  } = {}, callOptions: CallOptions = {}): Promise<PaginatedResponse<SearchResult>> {
     const params = new URLSearchParams({
       q: query,
       ...Object.fromEntries(
@@ -213,14 +559,15 @@ export class ModelSignatureClient {
       )
     });
 
-    return this.makeRequest(`/api/v1/search?${params}`, {
+    return this.request(`/api/v1/search?${params}`, {
       method: 'GET'
-    });
+    }, schema.paginated(schema.searchResult), callOptions);
   }
 
   /**
    * List public models
    * @param options Listing options
+   * @param callOptions Cancellation signal and deadline
    * @returns List of public models
    */
   async listPublicModels(options: {
@@ -228,32 +575,34 @@ export class ModelSignatureClient {
     offset?: number;
     sort_by?: string;
     sort_order?: 'asc' | 'desc';
-  } = {}): Promise<any> {
+  } = {}, callOptions: CallOptions = {}): Promise<PaginatedResponse<PublicModel>> {
     const params = new URLSearchParams(
       Object.fromEntries(
         Object.entries(options).map(([k, v]) => [k, String(v)])
       )
     );
 
-    return this.makeRequest(`/api/v1/public/models?${params}`, {
+    return this.request(`/api/v1/public/models?${params}`, {
       method: 'GET'
-    });
+    }, schema.paginated(schema.publicModel), callOptions);
   }
 
   /**
    * Get a public model by ID
    * @param modelId Model ID
+   * @param options Cancellation signal and deadline
    * @returns Model information
    */
-  async getPublicModel(modelId: string): Promise<any> {
-    return this.makeRequest(`/api/v1/public/models/${modelId}`, {
+  async getPublicModel(modelId: string, options: CallOptions = {}): Promise<PublicModel> {
+    return this.request(`/api/v1/public/models/${modelId}`, {
       method: 'GET'
-    });
+    }, schema.publicModel, options);
   }
 
   /**
    * List public providers
    * @param options Listing options
+   * @param callOptions Cancellation signal and deadline
    * @returns List of public providers
    */
   async listPublicProviders(options: {
@@ -261,61 +610,345 @@ export class ModelSignatureClient {
     offset?: number;
     sort_by?: string;
     sort_order?: 'asc' | 'desc';
-  } = {}): Promise<any> {
+  } = {}, callOptions: CallOptions = {}): Promise<PaginatedResponse<PublicProvider>> {
     const params = new URLSearchParams(
       Object.fromEntries(
         Object.entries(options).map(([k, v]) => [k, String(v)])
       )
     );
 
-    return this.makeRequest(`/api/v1/public/providers?${params}`, {
+    return this.request(`/api/v1/public/providers?${params}`, {
       method: 'GET'
-    });
+    }, schema.paginated(schema.publicProvider), callOptions);
   }
 
   /**
    * Get a public provider by ID
    * @param providerId Provider ID
+   * @param options Cancellation signal and deadline
    * @returns Provider information
    */
-  async getPublicProvider(providerId: string): Promise<any> {
-    return this.makeRequest(`/api/v1/public/providers/${providerId}`, {
+  async getPublicProvider(providerId: string, options: CallOptions = {}): Promise<PublicProvider> {
+    return this.request(`/api/v1/public/providers/${providerId}`, {
       method: 'GET'
-    });
+    }, schema.publicProvider, options);
+  }
+
+  /**
+   * Iterate over all public models, fetching pages on demand
+   * @param options Pagination and listing options
+   * @returns Async iterable of public models
+   */
+  iteratePublicModels(options: PaginationOptions & {
+    sort_by?: string;
+    sort_order?: 'asc' | 'desc';
+  } = {}): AsyncIterableIterator<PublicModel> {
+    const { pageSize, maxItems, signal, deadline, ...listOptions } = options;
+    return this.paginate(
+      (limit, offset) => this.listPublicModels({ ...listOptions, limit, offset }, { signal, deadline }),
+      { pageSize, maxItems, signal, deadline }
+    );
+  }
+
+  /**
+   * Iterate over all public providers, fetching pages on demand
+   * @param options Pagination and listing options
+   * @returns Async iterable of public providers
+   */
+  iteratePublicProviders(options: PaginationOptions & {
+    sort_by?: string;
+    sort_order?: 'asc' | 'desc';
+  } = {}): AsyncIterableIterator<PublicProvider> {
+    const { pageSize, maxItems, signal, deadline, ...listOptions } = options;
+    return this.paginate(
+      (limit, offset) => this.listPublicProviders({ ...listOptions, limit, offset }, { signal, deadline }),
+      { pageSize, maxItems, signal, deadline }
+    );
+  }
+
+  /**
+   * Iterate over all search results, fetching pages on demand
+   * @param query Search query
+   * @param options Pagination and search options
+   * @returns Async iterable of search results
+   */
+  iterateSearch(query: string, options: PaginationOptions & {
+    filter_verified?: boolean;
+    filter_capabilities?: string[];
+    filter_trust_level?: string;
+    sort_by?: string;
+    sort_order?: 'asc' | 'desc';
+  } = {}): AsyncIterableIterator<SearchResult> {
+    const { pageSize, maxItems, signal, deadline, ...searchOptions } = options;
+    return this.paginate(
+      (limit, offset) => this.search(query, { ...searchOptions, limit, offset }, { signal, deadline }),
+      { pageSize, maxItems, signal, deadline }
+    );
+  }
+
+  /**
+   * Page through an offset-paginated endpoint
+   * Stops on a short or empty page, when `total` is reached, or after `maxItems`.
+   * @param fetchPage Fetches one page for the given limit and offset
+   * @param options Pagination options
+   */
+  private async *paginate<T>(
+    fetchPage: (limit: number, offset: number) => Promise<PaginatedResponse<T>>,
+    options: PaginationOptions
+  ): AsyncIterableIterator<T> {
+    const pageSize = options.pageSize ?? 100;
+    const maxItems = options.maxItems ?? Infinity;
+    let offset = 0;
+    let yielded = 0;
+
+    if (pageSize <= 0) {
+      throw new ModelSignatureError('pageSize must be a positive number', 'INVALID_OPTIONS');
+    }
+
+    while (yielded < maxItems) {
+      throwIfCancelled(options);
+
+      const limit = Math.min(pageSize, maxItems - yielded);
+      const page = await fetchPage(limit, offset);
+
+      for (const item of page.items) {
+        if (yielded >= maxItems) {
+          return;
+        }
+        throwIfCancelled(options);
+        yield item;
+        yielded++;
+      }
+
+      // Servers may cap the page size, so a short page only ends the listing when there is no total
+      offset += page.items.length;
+      const done = page.total !== undefined ? offset >= page.total : page.items.length < limit;
+      if (page.items.length === 0 || done) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Call an endpoint that takes a token, keeping the token out of the URL where possible
+   * In 'auto' mode a missing body-form route (405, or a 404 without a JSON error body) means the
+   * server predates it; the client then uses the path form for the rest of its lifetime. A 404 with
+   * an error body is about the token itself and never downgrades the transport.
+   * @param bodyForm Request carrying the token in its JSON body
+   * @param pathForm Legacy request carrying the token in the URL path
+   * @param validator Schema for the expected response
+   * @param callOptions Cancellation signal and deadline
+   * @param label Endpoint name used in error messages and events
+   * @returns Typed response data
+   */
+  private async tokenRequest<T>(
+    bodyForm: TokenRoute,
+    pathForm: TokenRoute,
+    validator: schema.Validator<T>,
+    callOptions: CallOptions,
+    label: string
+  ): Promise<T> {
+    const transport = this.legacyTokenPaths ? 'path' : this.config.tokenTransport;
+    if (transport !== 'path') {
+      try {
+        return await this.request(bodyForm.endpoint, bodyForm.options, validator, callOptions, label);
+      } catch (error) {
+        const unsupported = error instanceof ModelSignatureError &&
+          (error.statusCode === 405 || (error.statusCode === 404 && error.body === undefined));
+        if (transport === 'body' || !unsupported) {
+          throw error;
+        }
+        this.legacyTokenPaths = true;
+      }
+    }
+    return this.request(pathForm.endpoint, pathForm.options, validator, callOptions, label);
+  }
+
+  /**
+   * Make HTTP request and validate the response body against a schema
+   * @param endpoint API endpoint path
+   * @param options Fetch options
+   * @param validator Schema for the expected response
+   * @param callOptions Cancellation signal and deadline
+   * @param label Endpoint name used in error messages (defaults to the path)
+   * @returns Typed response data
+   */
+  private async request<T>(
+    endpoint: string,
+    options: RequestOptions,
+    validator: schema.Validator<T>,
+    callOptions: CallOptions = {},
+    label: string = endpoint.split('?')[0]
+  ): Promise<T> {
+    const data = await this.makeRequest(endpoint, options, callOptions, label);
+    return schema.validateResponse(validator, data, label);
   }
 
   /**
    * Make HTTP request with retries and error handling
    * @param endpoint API endpoint path
    * @param options Fetch options
+   * @param callOptions Cancellation signal and overall deadline
+   * @param label Endpoint name reported in events (defaults to the path)
    * @returns Response data
    */
-  private async makeRequest(endpoint: string, options: RequestInit): Promise<any> {
-    const url = `${this.config.apiBaseUrl}${endpoint}`;
+  private async makeRequest(
+    endpoint: string,
+    options: RequestOptions,
+    callOptions: CallOptions = {},
+    label: string = endpoint.split('?')[0]
+  ): Promise<any> {
+    const { idempotent: readOnly, ...init } = options;
+    const url = /^https?:\/\//.test(endpoint) ? endpoint : `${this.config.apiBaseUrl}${endpoint}`;
     let lastError: Error = new Error('Unknown error');
+    let attempts = 0;
 
     // Add authentication header if API key is available
     const headers: Record<string, string> = {
-      ...((options.headers as Record<string, string>) || {})
+      ...((init.headers as Record<string, string>) || {})
     };
     
     if (this.apiKey) {
       headers['Authorization'] = `Bearer ${this.apiKey}`;
     }
 
+    // Mutating calls carry one key across all attempts so retries cannot apply twice
+    const method = (init.method || 'GET').toUpperCase();
+    const mutating = !readOnly && (method === 'POST' || method === 'PATCH');
+    if (mutating && this.config.idempotencyKeys && !headers['Idempotency-Key']) {
+      headers['Idempotency-Key'] = generateIdempotencyKey();
+    }
+    const idempotent = !mutating || !!headers['Idempotency-Key'];
+
+    const policy = this.config.retryPolicy;
+    const startedAt = Date.now();
+    const deadline = getDeadline(callOptions);
+
     for (let attempt = 0; attempt <= this.config.retries; attempt++) {
+      let retryAfter: number | undefined;
+      throwIfCancelled(callOptions);
+
       try {
-        // Add timeout to fetch options
+        let request: RequestContext = {
+          url,
+          method,
+          headers: { ...headers },
+          body: init.body,
+          attempt
+        };
+
+        // Let interceptors rewrite the request or answer it without a network call
+        for (const interceptor of this.interceptors) {
+          if (!interceptor.onRequest) {
+            continue;
+          }
+          const outcome = await interceptor.onRequest(request);
+          if (isShortCircuit(outcome)) {
+            return outcome.respondWith;
+          }
+          if (outcome) {
+            request = outcome;
+          }
+        }
+
+        // Fail fast while the API is known to be down
+        if (this.breaker && !this.breaker.allowRequest()) {
+          throw new ModelSignatureError('ModelSignature API is unavailable (circuit breaker open)', 'CIRCUIT_OPEN');
+        }
+
+        // Add timeout to fetch options, never running past the call's deadline
         const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
+        const attemptTimeout = deadline !== undefined
+          ? Math.max(0, Math.min(this.config.timeout, deadline - Date.now()))
+          : this.config.timeout;
+        let timedOut = false;
+        const timeoutId = setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, attemptTimeout);
+        const onAbort = () => controller.abort();
+        callOptions.signal?.addEventListener('abort', onAbort, { once: true });
 
-        const response = await fetch(url, {
-          ...options,
-          headers,
-          signal: controller.signal
-        });
+        // Listeners get a redacted copy; setHeader is their only way to change what is sent
+        const observed: RequestContext = {
+          ...request,
+          url: redactTokens(request.url),
+          headers: redactHeaders(request.headers),
+          body: typeof request.body === 'string' ? redactTokens(request.body) : request.body
+        };
+        const sentHeaders = { ...request.headers };
+        const setHeader = (name: string, value: string) => {
+          if (name.toLowerCase() !== 'authorization') {
+            sentHeaders[name] = value;
+            observed.headers[name] = value;
+          }
+        };
 
-        clearTimeout(timeoutId);
+        let response: Response;
+        attempts++;
+        const attemptStartedAt = Date.now();
+        this.events.emit('request:start', { method, endpoint: label, attempt, request: observed, setHeader });
+        try {
+          response = await this.fetchImpl(request.url, {
+            ...init,
+            method: request.method,
+            headers: sentHeaders,
+            body: request.body,
+            signal: controller.signal
+          });
+        } catch (error) {
+          // Caller cancellation says nothing about the API's health
+          const cancelled = getCancellationError(callOptions);
+          if (cancelled) {
+            this.breaker?.releaseTrial();
+          } else {
+            this.breaker?.recordFailure();
+          }
+          const failure = cancelled || (timedOut
+            ? new TimeoutError(`Request timed out after ${attemptTimeout}ms`, { cause: redactCause(error) })
+            : new NetworkError(redactTokens(error instanceof Error ? error.message : String(error)), {
+              cause: redactCause(error)
+            }));
+          this.events.emit('request:end', {
+            method,
+            endpoint: label,
+            attempt,
+            request: observed,
+            outcome: 'error',
+            durationMs: Date.now() - attemptStartedAt,
+            error: failure
+          });
+          throw failure;
+        } finally {
+          clearTimeout(timeoutId);
+          callOptions.signal?.removeEventListener('abort', onAbort);
+        }
+
+        if (response.status >= 500) {
+          this.breaker?.recordFailure();
+        } else {
+          this.breaker?.recordSuccess();
+        }
+
+        for (const interceptor of this.interceptors) {
+          if (!interceptor.onResponse) {
+            continue;
+          }
+          const replacement = await interceptor.onResponse(response, request);
+          if (replacement) {
+            response = replacement;
+          }
+        }
+
+        this.events.emit('request:end', {
+          method,
+          endpoint: label,
+          attempt,
+          request: observed,
+          outcome: response.ok ? 'success' : 'error',
+          status: response.status,
+          durationMs: Date.now() - attemptStartedAt
+        });
 
         if (!response.ok) {
           let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
@@ -332,22 +965,49 @@ export class ModelSignatureClient {
             // Unable to parse error response, use status text
           }
 
-          throw new ModelSignatureError(
-            errorMessage,
-            'HTTP_ERROR',
-            response.status
-          );
+          retryAfter = parseRetryAfter(response.headers?.get?.('Retry-After'));
+
+          throw createHttpError(response.status, redactTokens(errorMessage), retryAfter, {
+            requestId: response.headers?.get?.('X-Request-ID') ?? errorData?.request_id ?? undefined,
+            retryable: policy.isRetryableStatus(response.status),
+            body: errorData === null ? undefined : redactBody(errorData)
+          });
         }
 
         const data = await response.json();
         return data;
 
       } catch (error) {
+        if (isCancellationError(error)) {
+          throw error;
+        }
+
+        if (error instanceof ModelSignatureError && error.code === 'CIRCUIT_OPEN') {
+          // Opened before the first attempt: fail fast; mid-retry: report the real failure
+          if (attempt === 0) {
+            throw error;
+          }
+          break;
+        }
+
         lastError = error as Error;
+        if (error instanceof ModelSignatureError) {
+          error.attempts = attempts;
+        }
 
-        // Don't retry client errors (4xx) or non-retryable errors
-        if (error instanceof ModelSignatureError && error.statusCode && error.statusCode < 500) {
-          throw error;
+        const status = error instanceof ModelSignatureError ? error.statusCode : undefined;
+        if (status !== undefined) {
+          // Don't retry statuses the policy considers final
+          if (!policy.isRetryableStatus(status)) {
+            throw error;
+          }
+          // A 429 was rejected before processing, anything else may have had side effects
+          if (!idempotent && status !== 429) {
+            throw error;
+          }
+        } else if (!idempotent) {
+          // A network failure on a non-idempotent request may still have reached the server
+          break;
         }
 
         // Don't retry on last attempt
@@ -355,16 +1015,44 @@ export class ModelSignatureClient {
           break;
         }
 
-        // Wait before retrying with exponential backoff
-        const delay = getBackoffDelay(attempt);
-        await sleep(delay);
+        // Prefer the server's Retry-After hint, otherwise back off exponentially
+        const delay = retryAfter !== undefined && policy.respectRetryAfter
+          ? retryAfter
+          : getBackoffDelay(attempt, policy.baseDelay, policy.maxDelay);
+
+        // Give up rather than wait past the total time budget or the call's deadline
+        if (Date.now() - startedAt + delay > policy.maxElapsedTime) {
+          break;
+        }
+        if (deadline !== undefined && Date.now() + delay >= deadline) {
+          break;
+        }
+
+        this.events.emit('request:retry', {
+          method,
+          endpoint: label,
+          attempt: attempt + 1,
+          delayMs: delay,
+          error: lastError
+        });
+        await sleep(delay, callOptions.signal);
       }
     }
 
-    // If we get here, all retries failed
-    throw new ModelSignatureError(
-      `Request failed after ${this.config.retries + 1} attempts: ${lastError.message}`,
-      'REQUEST_FAILED'
+    // If we get here, all retries failed: surface the last typed error
+    if (lastError instanceof ModelSignatureError) {
+      throw lastError;
+    }
+    throw new ModelSignatureError(redactTokens(lastError.message), 'REQUEST_FAILED', undefined, { cause: redactCause(lastError), attempts });
+  }
+
+  /**
+   * Create the JWKS cache used for offline verification
+   */
+  private createJWKSCache(): JWKSCache {
+    return new JWKSCache(
+      () => this.makeRequest(this.config.jwksUrl, { method: 'GET' }) as Promise<JSONWebKeySet>,
+      { cacheTtl: this.config.jwksCacheTtl }
     );
   }
 
@@ -379,9 +1067,28 @@ export class ModelSignatureClient {
    * Update API configuration
    */
   updateConfig(config: Partial<ModelSignatureConfig>): void {
+    const { fetch: fetchImpl, interceptors, retryPolicy, ...rest } = config;
+
     this.config = {
       ...this.config,
-      ...config
+      ...rest,
+      retryPolicy: { ...this.config.retryPolicy, ...retryPolicy }
     };
+
+    if (fetchImpl) {
+      this.fetchImpl = fetchImpl;
+    }
+    if (interceptors) {
+      this.interceptors = [...interceptors];
+    }
+
+    // Keys fetched from a previous base URL or JWKS location are no longer trusted
+    if (config.apiBaseUrl !== undefined || config.jwksUrl !== undefined || config.jwksCacheTtl !== undefined) {
+      this.jwks = this.createJWKSCache();
+    }
+    // A different server may support sending tokens in the request body
+    if (config.apiBaseUrl !== undefined || config.tokenTransport !== undefined) {
+      this.legacyTokenPaths = false;
+    }
   }
 }
\ No newline at end of file
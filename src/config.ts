@@ -0,0 +1,316 @@
+/**
+ * ModelSignature JavaScript SDK - Configuration Loading
+ * Resolves client and policy settings from options, environment variables and profiles
+ */
+
+import { ModelSignatureConfig, ModelSignatureError, PolicyConfig } from './types';
+import { compilePattern, loadNodeBuiltin } from './utils';
+import { DEFAULT_TRUST_LEVELS, DEFAULT_VERIFICATION_LEVELS } from './policy-rules';
+
+export const DEFAULT_API_BASE_URL = 'https://modelsignature-api-541734326273.us-central1.run.app';
+
+/**
+ * Environment variables read by `loadConfig`
+ */
+export const ENV_VARS = {
+  apiKey: 'MODELSIGNATURE_API_KEY',
+  apiBaseUrl: 'MODELSIGNATURE_API_URL',
+  timeout: 'MODELSIGNATURE_TIMEOUT',
+  retries: 'MODELSIGNATURE_RETRIES',
+  profile: 'MODELSIGNATURE_PROFILE',
+  configFile: 'MODELSIGNATURE_CONFIG_FILE'
+} as const;
+
+/**
+ * Settings stored under a named profile in the config file
+ */
+export interface ConfigProfile {
+  apiKey?: string;
+  apiBaseUrl?: string;
+  timeout?: number; // milliseconds
+  retries?: number;
+  policy?: PolicyConfig; // default policy for enforcers created from this profile
+}
+
+/**
+ * Config file layout, by default `~/.modelsignature/config.json`
+ */
+export interface ConfigFile {
+  defaultProfile?: string;
+  profiles: Record<string, ConfigProfile>;
+}
+
+export interface LoadConfigOptions {
+  profile?: string; // defaults to $MODELSIGNATURE_PROFILE, then the file's defaultProfile, then 'default'
+  configFile?: string; // defaults to $MODELSIGNATURE_CONFIG_FILE, then ~/.modelsignature/config.json
+  env?: Record<string, string | undefined>; // defaults to process.env
+  client?: ModelSignatureConfig; // explicit client options, highest precedence
+  policy?: PolicyConfig; // explicit policy options, merged over the profile's policy
+}
+
+export interface ResolvedConfig {
+  client: ModelSignatureConfig;
+  policy: PolicyConfig;
+  profile?: string; // profile that was applied, if any
+}
+
+/**
+ * Resolve configuration with this precedence (first wins):
+ * explicit options, environment variables, the selected profile, built-in defaults.
+ * The result is validated; bad values throw `INVALID_CONFIG`.
+ * @param options Explicit options, profile selection and environment
+ * @returns Client and policy configuration
+ */
+export function loadConfig(options: LoadConfigOptions = {}): ResolvedConfig {
+  const env = options.env ?? (typeof process !== 'undefined' ? process.env : {});
+
+  const explicitFile = options.configFile ?? env[ENV_VARS.configFile];
+  const file = readConfigFile(explicitFile ?? defaultConfigPath(), explicitFile !== undefined);
+
+  const requestedProfile = options.profile ?? env[ENV_VARS.profile];
+  const profileName = requestedProfile ?? file?.defaultProfile ?? 'default';
+  const profile = file?.profiles[profileName];
+  if (!profile && requestedProfile !== undefined) {
+    throw new ModelSignatureError(`Unknown configuration profile '${requestedProfile}'`, 'INVALID_CONFIG');
+  }
+
+  const fromEnv: ModelSignatureConfig = {
+    apiKey: env[ENV_VARS.apiKey] || undefined,
+    apiBaseUrl: env[ENV_VARS.apiBaseUrl] || undefined,
+    timeout: parseNumber(env[ENV_VARS.timeout], ENV_VARS.timeout),
+    retries: parseNumber(env[ENV_VARS.retries], ENV_VARS.retries)
+  };
+  const { policy: profilePolicy, ...profileClient } = profile || {};
+
+  const client: ModelSignatureConfig = {
+    apiBaseUrl: DEFAULT_API_BASE_URL,
+    ...definedOnly(profileClient),
+    ...definedOnly(fromEnv),
+    ...definedOnly(options.client || {})
+  };
+  const policy: PolicyConfig = { ...profilePolicy, ...options.policy };
+
+  validateClientConfig(client);
+  validatePolicyConfig(policy);
+  return { client, policy, profile: profile ? profileName : undefined };
+}
+
+/**
+ * Check client settings, throwing `INVALID_CONFIG` with every problem found
+ * @param config Client configuration
+ */
+export function validateClientConfig(config: ModelSignatureConfig): void {
+  const problems: string[] = [];
+
+  if (config.apiKey !== undefined && (typeof config.apiKey !== 'string' || !config.apiKey.trim())) {
+    problems.push('apiKey must be a non-empty string');
+  }
+  if (config.apiBaseUrl !== undefined) {
+    const problem = checkBaseUrl(config.apiBaseUrl);
+    if (problem) {
+      problems.push(problem);
+    }
+  }
+  if (config.timeout !== undefined && !(isFiniteNumber(config.timeout) && config.timeout > 0)) {
+    problems.push('timeout must be a positive number of milliseconds');
+  }
+  if (config.retries !== undefined && !(Number.isInteger(config.retries) && config.retries >= 0)) {
+    problems.push('retries must be a non-negative integer');
+  }
+  if (config.jwksCacheTtl !== undefined && !(isFiniteNumber(config.jwksCacheTtl) && config.jwksCacheTtl > 0)) {
+    problems.push('jwksCacheTtl must be a positive number of milliseconds');
+  }
+  if (config.clockTolerance !== undefined && !(isFiniteNumber(config.clockTolerance) && config.clockTolerance >= 0)) {
+    problems.push('clockTolerance must be a non-negative number of seconds');
+  }
+  if (config.tokenTransport !== undefined && !['auto', 'body', 'path'].includes(config.tokenTransport)) {
+    problems.push("tokenTransport must be 'auto', 'body' or 'path'");
+  }
+
+  throwIfProblems(problems);
+}
+
+/**
+ * Check policy settings, throwing `INVALID_CONFIG` with every problem found
+ * @param config Policy configuration
+ */
+export function validatePolicyConfig(config: PolicyConfig): void {
+  throwIfProblems(getPolicyConfigProblems(config));
+}
+
+/**
+ * Problems with a policy configuration, including those a JSON Schema cannot express,
+ * such as a minimum level that is not on its scale
+ * @param config Policy configuration
+ * @returns One message per problem, empty when valid
+ */
+export function getPolicyConfigProblems(config: PolicyConfig): string[] {
+  const problems: string[] = [];
+
+  for (const key of [
+    'requireDeploymentId',
+    'requireModelDigest',
+    'requireBundleVerification',
+    'requireVerifiedDomain',
+    'failClosed'
+  ] as const) {
+    if (config[key] !== undefined && typeof config[key] !== 'boolean') {
+      problems.push(`policy.${key} must be a boolean`);
+    }
+  }
+  for (const key of ['allowedProviders', 'allowedModels', 'deniedProviders', 'deniedModels', 'allowedModelTypes'] as const) {
+    checkPatterns(config[key], `policy.${key}`, problems);
+  }
+  const byProvider = config.allowedModelsByProvider;
+  if (byProvider !== undefined) {
+    if (typeof byProvider !== 'object' || byProvider === null || Array.isArray(byProvider)) {
+      problems.push('policy.allowedModelsByProvider must be an object of provider pattern to model patterns');
+    } else {
+      for (const [provider, models] of Object.entries(byProvider)) {
+        checkPatterns([provider], 'policy.allowedModelsByProvider keys', problems);
+        checkPatterns(models, `policy.allowedModelsByProvider['${provider}']`, problems);
+      }
+    }
+  }
+  if (config.requiredCapabilities !== undefined && !isStringArray(config.requiredCapabilities)) {
+    problems.push('policy.requiredCapabilities must be an array of strings');
+  }
+  checkLevelScale(config, 'minVerificationLevel', 'verificationLevels', DEFAULT_VERIFICATION_LEVELS, problems);
+  checkLevelScale(config, 'minTrustLevel', 'trustLevels', DEFAULT_TRUST_LEVELS, problems);
+  if (config.maxBundleCheckAge !== undefined && !(isFiniteNumber(config.maxBundleCheckAge) && config.maxBundleCheckAge > 0)) {
+    problems.push('policy.maxBundleCheckAge must be a positive number of seconds');
+  }
+  if (config.maxTokenAge !== undefined && !(isFiniteNumber(config.maxTokenAge) && config.maxTokenAge > 0)) {
+    problems.push('policy.maxTokenAge must be a positive number of seconds');
+  }
+  if (config.clockTolerance !== undefined && !(isFiniteNumber(config.clockTolerance) && config.clockTolerance >= 0)) {
+    problems.push('policy.clockTolerance must be a non-negative number of seconds');
+  }
+
+  return problems;
+}
+
+/**
+ * Check a minimum level and its scale, e.g. `minTrustLevel` against `trustLevels`
+ */
+function checkLevelScale(
+  config: PolicyConfig,
+  minimumKey: 'minVerificationLevel' | 'minTrustLevel',
+  scaleKey: 'verificationLevels' | 'trustLevels',
+  defaultScale: readonly string[],
+  problems: string[]
+): void {
+  const scale: unknown = config[scaleKey];
+  if (scale !== undefined && !(isStringArray(scale) && scale.length > 0)) {
+    problems.push(`policy.${scaleKey} must be a non-empty array of strings, lowest first`);
+    return;
+  }
+  const minimum: unknown = config[minimumKey];
+  const levels = (scale as string[] | undefined) || defaultScale;
+  if (minimum !== undefined && !(typeof minimum === 'string' && levels.includes(minimum))) {
+    problems.push(`policy.${minimumKey} must be one of ${levels.join(', ')}`);
+  }
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function checkPatterns(value: unknown, name: string, problems: string[]): void {
+  if (value === undefined) {
+    return;
+  }
+  if (!isStringArray(value)) {
+    problems.push(`${name} must be an array of strings`);
+    return;
+  }
+  for (const pattern of value) {
+    try {
+      compilePattern(pattern);
+    } catch (error) {
+      problems.push(`${name} contains an invalid pattern: ${pattern}`);
+    }
+  }
+}
+
+function checkBaseUrl(value: unknown): string | undefined {
+  if (typeof value !== 'string') {
+    return 'apiBaseUrl must be a string';
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch (error) {
+    return `apiBaseUrl is not a valid URL: ${value}`;
+  }
+
+  // Plain HTTP is only acceptable against a local development server
+  const local = ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname) || url.hostname.endsWith('.localhost');
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && local)) {
+    return `apiBaseUrl must use https (http is allowed for localhost only): ${value}`;
+  }
+  return undefined;
+}
+
+function readConfigFile(path: string | undefined, required: boolean): ConfigFile | undefined {
+  const fs = loadNodeBuiltin<typeof import('fs')>('fs');
+  if (!path || !fs) {
+    if (required) {
+      throw new ModelSignatureError('Config files require a Node.js environment', 'INVALID_CONFIG');
+    }
+    return undefined;
+  }
+
+  let raw: string;
+  try {
+    raw = fs.readFileSync(path, 'utf8');
+  } catch (error) {
+    if (required) {
+      throw new ModelSignatureError(`Unable to read config file ${path}`, 'INVALID_CONFIG', undefined, { cause: error });
+    }
+    return undefined;
+  }
+
+  let data: any;
+  try {
+    data = JSON.parse(raw);
+  } catch (error) {
+    throw new ModelSignatureError(`Config file ${path} is not valid JSON`, 'INVALID_CONFIG', undefined, { cause: error });
+  }
+  if (typeof data !== 'object' || data === null || typeof data.profiles !== 'object' || data.profiles === null) {
+    throw new ModelSignatureError(`Config file ${path} must contain a "profiles" object`, 'INVALID_CONFIG');
+  }
+  return data as ConfigFile;
+}
+
+function defaultConfigPath(): string | undefined {
+  const os = loadNodeBuiltin<typeof import('os')>('os');
+  const path = loadNodeBuiltin<typeof import('path')>('path');
+  return os && path ? path.join(os.homedir(), '.modelsignature', 'config.json') : undefined;
+}
+
+function parseNumber(value: string | undefined, name: string): number | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (Number.isNaN(parsed)) {
+    throw new ModelSignatureError(`${name} must be a number, got '${value}'`, 'INVALID_CONFIG');
+  }
+  return parsed;
+}
+
+function definedOnly<T extends object>(values: T): Partial<T> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function throwIfProblems(problems: string[]): void {
+  if (problems.length > 0) {
+    throw new ModelSignatureError(`Invalid configuration: ${problems.join('; ')}`, 'INVALID_CONFIG');
+  }
+}
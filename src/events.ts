@@ -0,0 +1,104 @@
+/**
+ * ModelSignature JavaScript SDK - Lifecycle Events
+ * Observability hooks for requests, retries, cache lookups and policy decisions
+ */
+
+import { PolicyViolation, RequestContext } from './types';
+
+export interface RequestEvent {
+  method: string;
+  endpoint: string; // path without query string or token, e.g. '/api/v1/jwt/verify'
+  attempt: number; // 0 for the first try
+  request: RequestContext; // a copy with tokens and Authorization redacted; changing it does not affect the request
+}
+
+export interface RequestStartEvent extends RequestEvent {
+  setHeader(name: string, value: string): void; // add a header (e.g. trace context) to the request; Authorization cannot be set
+}
+
+export interface RequestEndEvent extends RequestEvent {
+  outcome: 'success' | 'error';
+  status?: number; // absent when no response was received
+  durationMs: number;
+  error?: Error; // network failure, timeout or cancellation
+}
+
+export interface RequestRetryEvent {
+  method: string;
+  endpoint: string;
+  attempt: number; // the attempt about to be made
+  delayMs: number;
+  error: Error; // failure that triggered the retry
+}
+
+export interface CacheLookupEvent {
+  jti?: string;
+  durationMs: number;
+}
+
+export interface PolicyDecisionEvent {
+  allowed: boolean;
+  violations: PolicyViolation[]; // the violations that denied the token
+  degraded: boolean; // allowed in fail-open mode while the API was unavailable
+  modelId?: string;
+  providerId?: string;
+  durationMs: number;
+}
+
+export interface SDKEventMap {
+  'request:start': RequestStartEvent;
+  'request:end': RequestEndEvent;
+  'request:retry': RequestRetryEvent;
+  'cache:hit': CacheLookupEvent;
+  'cache:miss': CacheLookupEvent;
+  'policy:decision': PolicyDecisionEvent;
+}
+
+export type SDKEventType = keyof SDKEventMap;
+
+export type SDKEventListener<K extends SDKEventType> = (event: SDKEventMap[K]) => void;
+
+/**
+ * Synchronous event dispatcher shared by a client and the policy enforcers built on it.
+ * Listener errors are swallowed so observability can never break a verification.
+ */
+export class EventBus {
+  private listeners = new Map<SDKEventType, Set<SDKEventListener<any>>>();
+
+  /**
+   * Subscribe to an event
+   * @param type Event name
+   * @param listener Called synchronously with the event payload
+   * @returns Function that removes the listener again
+   */
+  on<K extends SDKEventType>(type: K, listener: SDKEventListener<K>): () => void {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(type, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners!.delete(listener);
+    };
+  }
+
+  /**
+   * Dispatch an event to its listeners
+   * @param type Event name
+   * @param event Event payload
+   */
+  emit<K extends SDKEventType>(type: K, event: SDKEventMap[K]): void {
+    const listeners = this.listeners.get(type);
+    if (!listeners) {
+      return;
+    }
+    for (const listener of Array.from(listeners)) {
+      try {
+        listener(event);
+      } catch (error) {
+        // Listener failures must not affect the SDK
+      }
+    }
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * ModelSignature JavaScript SDK - Streaming Response Hashing
+ * Incremental SHA-256 over streamed model output, matching `hashOutput` on the full text
+ */
+
+import CryptoJS from 'crypto-js';
+import { ModelSignatureError } from './types';
+import { getSubtleCrypto, loadNodeBuiltin } from './utils';
+
+export type HashChunk = string | Uint8Array;
+
+/**
+ * Incremental SHA-256 hasher for response text that arrives in chunks
+ */
+export interface ResponseHasher {
+  /**
+   * Add a chunk; strings are hashed as UTF-8, exactly like `hashOutput`
+   */
+  update(chunk: HashChunk): ResponseHasher;
+
+  /**
+   * Finish hashing; the hasher cannot be updated afterwards
+   * @returns SHA-256 as a lowercase hex string
+   */
+  digest(): Promise<string>;
+
+  /**
+   * Web stream stage that hashes every chunk and passes it through unchanged
+   */
+  transformStream<T extends HashChunk>(): TransformStream<T, T>;
+
+  /**
+   * Node.js stream stage that hashes every chunk and passes it through unchanged
+   */
+  nodeTransform(): import('stream').Transform;
+
+  readonly bytesHashed: number;
+}
+
+interface HashBackend {
+  update(bytes: Uint8Array): void;
+  digest(): Promise<string>;
+}
+
+/**
+ * Create an incremental SHA-256 hasher for streamed model output.
+ * Uses `node:crypto` under Node.js. WebCrypto has no incremental digest, so in browsers the
+ * encoded chunks are kept until `digest()`; without WebCrypto it falls back to crypto-js.
+ * @returns Hasher whose digest equals `hashOutput` of the concatenated chunks
+ */
+export function createResponseHasher(): ResponseHasher {
+  const backend = createBackend();
+  const encoder = new TextEncoder();
+  let finalized = false;
+  let bytesHashed = 0;
+  let pendingSurrogate = ''; // high surrogate held back until the chunk with its low half arrives
+
+  const write = (bytes: Uint8Array) => {
+    backend.update(bytes);
+    bytesHashed += bytes.length;
+  };
+
+  const hasher: ResponseHasher = {
+    update(chunk) {
+      if (finalized) {
+        throw new ModelSignatureError('Response hasher has already been finalized', 'HASHER_FINALIZED');
+      }
+      if (typeof chunk !== 'string' && !(chunk instanceof Uint8Array)) {
+        throw new ModelSignatureError('Response chunks must be strings or Uint8Arrays', 'INVALID_CHUNK');
+      }
+      if (typeof chunk !== 'string') {
+        if (pendingSurrogate) {
+          write(encoder.encode(pendingSurrogate));
+          pendingSurrogate = '';
+        }
+        write(chunk);
+        return hasher;
+      }
+
+      // Encoding half of a surrogate pair on its own would turn both halves into U+FFFD
+      let text = pendingSurrogate + chunk;
+      pendingSurrogate = '';
+      const last = text.charCodeAt(text.length - 1);
+      if (last >= 0xd800 && last <= 0xdbff) {
+        pendingSurrogate = text.slice(-1);
+        text = text.slice(0, -1);
+      }
+      write(encoder.encode(text));
+      return hasher;
+    },
+
+    async digest() {
+      if (finalized) {
+        throw new ModelSignatureError('Response hasher has already been finalized', 'HASHER_FINALIZED');
+      }
+      finalized = true;
+      if (pendingSurrogate) {
+        write(encoder.encode(pendingSurrogate));
+        pendingSurrogate = '';
+      }
+      return backend.digest();
+    },
+
+    transformStream<T extends HashChunk>() {
+      const Transform = getTransformStream();
+      if (!Transform) {
+        throw new ModelSignatureError('TransformStream is not available in this environment', 'UNSUPPORTED');
+      }
+      return new Transform<T, T>({
+        transform(chunk, controller) {
+          hasher.update(chunk);
+          controller.enqueue(chunk);
+        }
+      });
+    },
+
+    nodeTransform() {
+      const stream = loadNodeBuiltin<typeof import('stream')>('stream');
+      if (!stream) {
+        throw new ModelSignatureError('Node.js streams are not available in this environment', 'UNSUPPORTED');
+      }
+      return new stream.Transform({
+        transform(chunk, _encoding, callback) {
+          try {
+            hasher.update(chunk);
+            callback(null, chunk);
+          } catch (error) {
+            callback(error as Error);
+          }
+        }
+      });
+    },
+
+    get bytesHashed() {
+      return bytesHashed;
+    }
+  };
+  return hasher;
+}
+
+/**
+ * Get the web TransformStream class for the current runtime
+ * Uses the global in browsers and Node 18+, node:stream/web on Node 16
+ */
+function getTransformStream(): typeof TransformStream | undefined {
+  if (typeof TransformStream !== 'undefined') {
+    return TransformStream;
+  }
+  return loadNodeBuiltin<{ TransformStream: typeof TransformStream }>('stream/web')?.TransformStream;
+}
+
+function createBackend(): HashBackend {
+  const nodeCrypto = loadNodeBuiltin<typeof import('crypto')>('crypto');
+  if (nodeCrypto && typeof nodeCrypto.createHash === 'function') {
+    const hash = nodeCrypto.createHash('sha256');
+    return {
+      update: bytes => hash.update(bytes),
+      digest: async () => hash.digest('hex')
+    };
+  }
+
+  const subtle = getSubtleCrypto();
+  if (subtle) {
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    return {
+      update: (bytes) => {
+        // Copy, since stream producers may reuse their buffers
+        chunks.push(bytes.slice());
+        length += bytes.length;
+      },
+      digest: async () => {
+        const data = new Uint8Array(length);
+        let offset = 0;
+        for (const chunk of chunks) {
+          data.set(chunk, offset);
+          offset += chunk.length;
+        }
+        chunks.length = 0;
+        return toHex(new Uint8Array(await subtle.digest('SHA-256', data)));
+      }
+    };
+  }
+
+  const hash = CryptoJS.algo.SHA256.create();
+  return {
+    update: bytes => hash.update((CryptoJS.lib.WordArray.create as any)(bytes)),
+    digest: async () => hash.finalize().toString(CryptoJS.enc.Hex)
+  };
+}
+
+function toHex(bytes: Uint8Array): string {
+  let hex = '';
+  for (let i = 0; i < bytes.length; i++) {
+    hex += bytes[i].toString(16).padStart(2, '0');
+  }
+  return hex;
+}
@@ -6,9 +6,34 @@
 // Export main classes
 export { ModelSignatureClient } from './client';
 export { PolicyEnforcer, createSecurePolicy, createLenientPolicy } from './policy';
+export { BUILT_IN_POLICY_RULES, DEFAULT_VERIFICATION_LEVELS, DEFAULT_TRUST_LEVELS } from './policy-rules';
+export { JWKSCache } from './jwks';
+export { VerificationCache, MemoryCacheStore, FileCacheStore } from './cache';
+export { CircuitBreaker } from './circuit-breaker';
+export { EventBus } from './events';
+export { loadConfig, validateClientConfig, validatePolicyConfig, DEFAULT_API_BASE_URL, ENV_VARS } from './config';
+export { instrumentOpenTelemetry, formatTraceparent, MetricsCollector } from './telemetry';
 
 // Export utility functions
-export { hashOutput, parseJWT, isTokenExpired, getTokenAge, isValidTokenFormat } from './utils';
+export {
+  hashOutput,
+  decodeToken,
+  parseJWT,
+  isTokenExpired,
+  isTokenNotYetValid,
+  getTokenAge,
+  isValidTokenFormat,
+  redactToken,
+  redactTokens,
+  systemClock,
+  DEFAULT_CLOCK_TOLERANCE,
+  compilePattern,
+  findMatchingPattern
+} from './utils';
+export { createResponseHasher } from './hashing';
+export { verifyResponseBinding } from './binding';
+export { canonicalize, canonicalizeJSON, CANONICALIZATION_PROFILES } from './canonicalize';
+export { loadPolicy, parsePolicyDocument, validatePolicyDocument, POLICY_SCHEMA } from './policy-file';
 
 // Export types
 export type {
@@ -19,9 +44,76 @@ export type {
   BundleCheck,
   VerificationResult,
   PolicyConfig,
+  PolicyDocument,
   PolicyResult,
-  ResponseBinding
+  PolicyRule,
+  PolicyRuleContext,
+  PolicyRuleOutcome,
+  PolicyRuleSeverity,
+  PolicyRuleViolation,
+  PolicyViolation,
+  ResponseBinding,
+  JWTHeader,
+  DecodedToken,
+  JSONWebKey,
+  JSONWebKeySet,
+  FetchFunction,
+  RequestContext,
+  RequestInterceptor,
+  InterceptorShortCircuit,
+  BatchOptions,
+  BatchVerificationResult,
+  BatchPolicyResult,
+  Deployment,
+  OperationResult,
+  VerificationRecord,
+  RegisteredModel,
+  PublicModel,
+  PublicProvider,
+  SearchResult,
+  PaginatedResponse,
+  PaginationOptions,
+  RetryPolicy,
+  CircuitBreakerOptions,
+  CallOptions,
+  TokenTransport,
+  Clock,
+  TimeOptions,
+  CanonicalizationProfile,
+  BindResponseOptions,
+  ResponseBindingVerification,
+  ResponseBindingFailure,
+  ModelSignatureErrorDetails
 } from './types';
+export type { JWKSCacheOptions } from './jwks';
+export type { CacheStore, CacheEntry, CacheStats } from './cache';
+export type { CircuitState } from './circuit-breaker';
+export type { PolicyEnforcerOptions } from './policy';
+export type {
+  SDKEventMap,
+  SDKEventType,
+  SDKEventListener,
+  RequestEvent,
+  RequestStartEvent,
+  RequestEndEvent,
+  RequestRetryEvent,
+  CacheLookupEvent,
+  PolicyDecisionEvent
+} from './events';
+export type { ConfigProfile, ConfigFile, LoadConfigOptions, ResolvedConfig } from './config';
+export type { OTelSpan, OTelTracer, OpenTelemetryOptions, MetricsSink, PolicyMetricsSnapshot } from './telemetry';
+export type { ResponseHasher, HashChunk } from './hashing';
+export type { LoadPolicyOptions, PolicyFileFormat } from './policy-file';
 
 // Export errors
-export { ModelSignatureError, PolicyViolationError } from './types';
\ No newline at end of file
+export {
+  ModelSignatureError,
+  PolicyViolationError,
+  TokenDecodeError,
+  NetworkError,
+  TimeoutError,
+  RateLimitError,
+  AuthenticationError,
+  NotFoundError,
+  ServerError
+} from './types';
\ No newline at end of file
@@ -0,0 +1,249 @@
+/**
+ * ModelSignature JavaScript SDK - JWKS Key Cache
+ * Offline JWT signature verification against the issuer's published keys
+ */
+
+import { JSONWebKey, JSONWebKeySet, ModelSignatureError } from './types';
+import { getSubtleCrypto } from './utils';
+
+interface AlgorithmParams {
+  kty: string;
+  crv?: string;
+  importParams: RsaHashedImportParams | EcKeyImportParams | Algorithm;
+  verifyParams: Algorithm | RsaPssParams | EcdsaParams;
+}
+
+const SUPPORTED_ALGORITHMS: Record<string, AlgorithmParams> = {
+  RS256: {
+    kty: 'RSA',
+    importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    verifyParams: { name: 'RSASSA-PKCS1-v1_5' }
+  },
+  RS384: {
+    kty: 'RSA',
+    importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-384' },
+    verifyParams: { name: 'RSASSA-PKCS1-v1_5' }
+  },
+  RS512: {
+    kty: 'RSA',
+    importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-512' },
+    verifyParams: { name: 'RSASSA-PKCS1-v1_5' }
+  },
+  PS256: {
+    kty: 'RSA',
+    importParams: { name: 'RSA-PSS', hash: 'SHA-256' },
+    verifyParams: { name: 'RSA-PSS', saltLength: 32 } as RsaPssParams
+  },
+  PS384: {
+    kty: 'RSA',
+    importParams: { name: 'RSA-PSS', hash: 'SHA-384' },
+    verifyParams: { name: 'RSA-PSS', saltLength: 48 } as RsaPssParams
+  },
+  PS512: {
+    kty: 'RSA',
+    importParams: { name: 'RSA-PSS', hash: 'SHA-512' },
+    verifyParams: { name: 'RSA-PSS', saltLength: 64 } as RsaPssParams
+  },
+  ES256: {
+    kty: 'EC',
+    crv: 'P-256',
+    importParams: { name: 'ECDSA', namedCurve: 'P-256' },
+    verifyParams: { name: 'ECDSA', hash: 'SHA-256' } as EcdsaParams
+  },
+  ES384: {
+    kty: 'EC',
+    crv: 'P-384',
+    importParams: { name: 'ECDSA', namedCurve: 'P-384' },
+    verifyParams: { name: 'ECDSA', hash: 'SHA-384' } as EcdsaParams
+  },
+  ES512: {
+    kty: 'EC',
+    crv: 'P-521',
+    importParams: { name: 'ECDSA', namedCurve: 'P-521' },
+    verifyParams: { name: 'ECDSA', hash: 'SHA-512' } as EcdsaParams
+  },
+  EdDSA: {
+    kty: 'OKP',
+    crv: 'Ed25519',
+    importParams: { name: 'Ed25519' },
+    verifyParams: { name: 'Ed25519' }
+  }
+};
+
+/**
+ * Check whether a JWS algorithm can be verified locally
+ * @param alg Algorithm from the JWT header
+ * @returns true if supported (symmetric and 'none' algorithms never are)
+ */
+export function isSupportedAlgorithm(alg: string): boolean {
+  return Object.prototype.hasOwnProperty.call(SUPPORTED_ALGORITHMS, alg);
+}
+
+/**
+ * Check whether a key's type and curve fit a JWS algorithm
+ * @param jwk JSON Web Key
+ * @param alg Algorithm from the JWT header
+ * @returns true if the key can verify signatures made with `alg`
+ */
+export function isKeyCompatible(jwk: JSONWebKey, alg: string): boolean {
+  if (!isSupportedAlgorithm(alg)) {
+    return false;
+  }
+  const { kty, crv } = SUPPORTED_ALGORITHMS[alg];
+  return jwk.kty === kty && (crv === undefined || jwk.crv === crv);
+}
+
+export interface JWKSCacheOptions {
+  cacheTtl?: number; // milliseconds before the key set is refetched
+  minRefreshInterval?: number; // milliseconds between refetches triggered by unknown kids
+}
+
+/**
+ * Caches an issuer's JSON Web Key Set and the imported verification keys.
+ * Keys are looked up by `kid`; an unknown `kid` triggers a refetch so that
+ * key rotation is picked up without waiting for the TTL to expire.
+ */
+export class JWKSCache {
+  private fetchKeySet: () => Promise<JSONWebKeySet>;
+  private options: Required<JWKSCacheOptions>;
+  private keys: JSONWebKey[] = [];
+  private imported = new Map<string, Promise<CryptoKey>>();
+  private fetchedAt = 0;
+  private pending?: Promise<void>;
+
+  constructor(fetchKeySet: () => Promise<JSONWebKeySet>, options: JWKSCacheOptions = {}) {
+    this.fetchKeySet = fetchKeySet;
+    this.options = {
+      cacheTtl: options.cacheTtl ?? 10 * 60 * 1000,
+      minRefreshInterval: options.minRefreshInterval ?? 30 * 1000
+    };
+  }
+
+  /**
+   * Get the verification key for a token
+   * @param kid Key ID from the JWT header
+   * @param alg Algorithm from the JWT header
+   * @returns Imported CryptoKey, or null if no matching key is published
+   */
+  async getKey(kid: string | undefined, alg: string): Promise<CryptoKey | null> {
+    if (!isSupportedAlgorithm(alg)) {
+      throw new ModelSignatureError(`Unsupported signing algorithm: ${alg}`, 'UNSUPPORTED_ALGORITHM');
+    }
+
+    if (this.fetchedAt === 0 || Date.now() - this.fetchedAt > this.options.cacheTtl) {
+      await this.refresh();
+    }
+
+    let jwk = this.findKey(kid, alg);
+    if (!jwk && Date.now() - this.fetchedAt > this.options.minRefreshInterval) {
+      // Unknown kid - the issuer may have rotated its keys
+      await this.refresh();
+      jwk = this.findKey(kid, alg);
+    }
+
+    if (!jwk) {
+      return null;
+    }
+
+    const cacheKey = `${jwk.kid ?? ''}:${alg}`;
+    let key = this.imported.get(cacheKey);
+    if (!key) {
+      key = importVerificationKey(jwk, alg);
+      this.imported.set(cacheKey, key);
+      key.catch(() => this.imported.delete(cacheKey));
+    }
+    return key;
+  }
+
+  /**
+   * Refetch the key set, sharing a single request between concurrent callers
+   */
+  async refresh(): Promise<void> {
+    if (!this.pending) {
+      this.pending = this.fetchKeySet()
+        .then(keySet => {
+          if (!keySet || !Array.isArray(keySet.keys)) {
+            throw new ModelSignatureError('Invalid JWKS response: missing keys array', 'INVALID_JWKS');
+          }
+          this.keys = keySet.keys;
+          this.imported.clear();
+          this.fetchedAt = Date.now();
+        })
+        .finally(() => {
+          this.pending = undefined;
+        });
+    }
+    return this.pending;
+  }
+
+  /**
+   * Drop all cached keys so the next lookup refetches the key set
+   */
+  clear(): void {
+    this.keys = [];
+    this.imported.clear();
+    this.fetchedAt = 0;
+  }
+
+  private findKey(kid: string | undefined, alg: string): JSONWebKey | undefined {
+    const candidates = this.keys.filter(key =>
+      (!key.use || key.use === 'sig') && (!key.alg || key.alg === alg) && isKeyCompatible(key, alg)
+    );
+
+    if (kid !== undefined) {
+      return candidates.find(key => key.kid === kid);
+    }
+
+    // Without a kid the choice is only unambiguous for single-key sets
+    return candidates.length === 1 ? candidates[0] : undefined;
+  }
+}
+
+/**
+ * Import a JWK as a WebCrypto verification key
+ * @param jwk JSON Web Key
+ * @param alg JWS algorithm the key is used with
+ * @returns Imported CryptoKey
+ */
+export async function importVerificationKey(jwk: JSONWebKey, alg: string): Promise<CryptoKey> {
+  const subtle = getSubtleCrypto();
+  if (!subtle) {
+    throw new ModelSignatureError('WebCrypto is not available in this environment', 'CRYPTO_UNAVAILABLE');
+  }
+
+  const { alg: _alg, use: _use, ...keyData } = jwk;
+  return subtle.importKey(
+    'jwk',
+    keyData as JsonWebKey,
+    SUPPORTED_ALGORITHMS[alg].importParams,
+    false,
+    ['verify']
+  );
+}
+
+/**
+ * Verify a JWS signature
+ * @param key Verification key
+ * @param alg JWS algorithm
+ * @param signingInput The `header.payload` part of the token
+ * @param signature Decoded signature bytes
+ * @returns true if the signature is valid; WebCrypto errors count as invalid
+ */
+export async function verifyJWSSignature(
+  key: CryptoKey,
+  alg: string,
+  signingInput: string,
+  signature: Uint8Array
+): Promise<boolean> {
+  const subtle = getSubtleCrypto();
+  if (!subtle || !isSupportedAlgorithm(alg)) {
+    return false;
+  }
+
+  return subtle.verify(
+    SUPPORTED_ALGORITHMS[alg].verifyParams,
+    key,
+    signature,
+    new TextEncoder().encode(signingInput)
+  ).catch(() => false);
+}
@@ -0,0 +1,264 @@
+/**
+ * ModelSignature JavaScript SDK - Policy Files
+ * Loads declarative JSON or YAML policy documents, validated against the published JSON Schema
+ */
+
+import { ModelSignatureError, PolicyConfig, PolicyDocument } from './types';
+import { ModelSignatureClient } from './client';
+import { PolicyEnforcer, PolicyEnforcerOptions } from './policy';
+import { getPolicyConfigProblems } from './config';
+import { compilePattern, loadNodeBuiltin } from './utils';
+import policySchema from './policy.schema.json';
+
+/**
+ * JSON Schema (draft-07) for policy documents, also shipped as `@modelsignature/sdk/policy.schema.json`
+ */
+export const POLICY_SCHEMA: JSONSchema = policySchema as JSONSchema;
+
+export type PolicyFileFormat = 'json' | 'yaml';
+
+export interface LoadPolicyOptions {
+  client?: ModelSignatureClient; // defaults to ModelSignatureClient.fromEnv()
+  enforcer?: PolicyEnforcerOptions;
+  format?: PolicyFileFormat; // defaults to the file extension, then JSON
+}
+
+/**
+ * The subset of JSON Schema used by POLICY_SCHEMA
+ */
+export interface JSONSchema {
+  type?: string;
+  const?: unknown;
+  enum?: unknown[];
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  propertyNames?: JSONSchema;
+  items?: JSONSchema;
+  format?: string;
+  minimum?: number;
+  exclusiveMinimum?: number;
+  [keyword: string]: unknown;
+}
+
+interface YamlParser {
+  load(text: string): unknown;
+}
+
+/**
+ * Load a policy document and build an enforcer from it
+ * @param pathOrDocument Path to a .json, .yaml or .yml file, or an already parsed document
+ * @param options Client, enforcer options and file format
+ * @returns PolicyEnforcer configured with the document's policy
+ */
+export async function loadPolicy(
+  pathOrDocument: string | PolicyDocument,
+  options: LoadPolicyOptions = {}
+): Promise<PolicyEnforcer> {
+  let document: PolicyDocument;
+  if (typeof pathOrDocument === 'string') {
+    const format = options.format ?? (/\.ya?ml$/i.test(pathOrDocument) ? 'yaml' : 'json');
+    document = parsePolicyDocument(await readPolicyFile(pathOrDocument), format, pathOrDocument);
+  } else {
+    document = validatePolicyDocument(pathOrDocument);
+  }
+
+  const client = options.client ?? ModelSignatureClient.fromEnv();
+  return new PolicyEnforcer(client, document.policy, options.enforcer);
+}
+
+/**
+ * Parse and validate policy document text
+ * @param text JSON or YAML text
+ * @param format Text format, defaults to JSON
+ * @param source File name used in error messages
+ * @returns Validated policy document
+ */
+export function parsePolicyDocument(text: string, format: PolicyFileFormat = 'json', source?: string): PolicyDocument {
+  let value: unknown;
+  try {
+    value = format === 'yaml' ? loadYamlParser().load(text) : JSON.parse(text);
+  } catch (error) {
+    if (error instanceof ModelSignatureError) {
+      throw error;
+    }
+    throw new ModelSignatureError(
+      `Policy document${source ? ` ${source}` : ''} is not valid ${format.toUpperCase()}: ${(error as Error).message}`,
+      'INVALID_POLICY',
+      undefined,
+      { cause: error }
+    );
+  }
+  return validatePolicyDocument(value, source);
+}
+
+/**
+ * Check a parsed policy document against POLICY_SCHEMA and the policy's cross-field rules,
+ * throwing `INVALID_POLICY` with every problem found
+ * @param value Parsed document
+ * @param source File name used in error messages
+ * @returns The document, typed
+ */
+export function validatePolicyDocument(value: unknown, source?: string): PolicyDocument {
+  const problems: string[] = [];
+  checkSchema(POLICY_SCHEMA, value, '', problems);
+  if (problems.length === 0) {
+    // Cross-field checks the schema cannot express, e.g. minTrustLevel against trustLevels
+    problems.push(...getPolicyConfigProblems((value as PolicyDocument).policy));
+  }
+  if (problems.length > 0) {
+    throw new ModelSignatureError(
+      `Invalid policy document${source ? ` ${source}` : ''}: ${problems.join('; ')}`,
+      'INVALID_POLICY'
+    );
+  }
+  return value as PolicyDocument;
+}
+
+/**
+ * Check a bare policy object (the `policy` section of a document, without `version`)
+ * the same way, throwing `INVALID_POLICY` with every problem found
+ * @param value Parsed policy object
+ * @param source File name used in error messages
+ * @returns The policy, typed
+ */
+export function validatePolicySection(value: unknown, source?: string): PolicyConfig {
+  const problems: string[] = [];
+  checkSchema(POLICY_SCHEMA.properties!.policy, value, 'policy', problems);
+  if (problems.length === 0) {
+    problems.push(...getPolicyConfigProblems(value as PolicyConfig));
+  }
+  if (problems.length > 0) {
+    throw new ModelSignatureError(
+      `Invalid policy config${source ? ` ${source}` : ''}: ${problems.join('; ')}`,
+      'INVALID_POLICY'
+    );
+  }
+  return value as PolicyConfig;
+}
+
+function checkSchema(schema: JSONSchema, value: unknown, path: string, problems: string[]): void {
+  const name = path || 'document';
+
+  if ('const' in schema && value !== schema.const) {
+    problems.push(`${name} must be ${JSON.stringify(schema.const)}`);
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    problems.push(`${name} must be one of ${schema.enum.map(item => JSON.stringify(item)).join(', ')}`);
+    return;
+  }
+  if (schema.type && !hasType(value, schema.type)) {
+    problems.push(`${name} must be ${schema.type === 'array' || schema.type === 'object' ? 'an' : 'a'} ${schema.type}`);
+    return;
+  }
+
+  if (schema.format === 'policy-pattern' && typeof value === 'string') {
+    try {
+      compilePattern(value);
+    } catch (error) {
+      problems.push(`${name} is not a valid pattern: ${value}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      problems.push(`${name} must be at least ${schema.minimum}`);
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      problems.push(`${name} must be greater than ${schema.exclusiveMinimum}`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => checkSchema(schema.items!, item, `${name}[${index}]`, problems));
+  }
+
+  if (hasType(value, 'object')) {
+    const record = value as Record<string, unknown>;
+    const properties = schema.properties || {};
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) {
+        problems.push(`${path ? `${path}.` : ''}${key} is required`);
+      }
+    }
+    for (const [key, item] of Object.entries(record)) {
+      const childPath = path ? `${path}.${key}` : key;
+      if (schema.propertyNames) {
+        checkSchema(schema.propertyNames, key, `${name} key '${key}'`, problems);
+      }
+      if (properties[key]) {
+        checkSchema(properties[key], item, childPath, problems);
+      } else if (typeof schema.additionalProperties === 'object') {
+        checkSchema(schema.additionalProperties, item, childPath, problems);
+      } else if (schema.additionalProperties === false) {
+        const suggestion = suggest(key, Object.keys(properties));
+        problems.push(`${childPath} is not a known property${suggestion ? ` (did you mean '${suggestion}'?)` : ''}`);
+      }
+    }
+  }
+}
+
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Closest known property within two edits, to point out typos like `maxTokenAg`
+ */
+function suggest(key: string, candidates: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = 3;
+  for (const candidate of candidates) {
+    const distance = editDistance(key.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+async function readPolicyFile(path: string): Promise<string> {
+  const fs = loadNodeBuiltin<typeof import('fs')>('fs');
+  if (!fs) {
+    throw new ModelSignatureError('Policy files require a Node.js environment', 'INVALID_POLICY');
+  }
+  try {
+    return await fs.promises.readFile(path, 'utf8');
+  } catch (error) {
+    throw new ModelSignatureError(`Unable to read policy file ${path}`, 'INVALID_POLICY', undefined, { cause: error });
+  }
+}
+
+function loadYamlParser(): YamlParser {
+  // js-yaml is an optional peer dependency, only needed for YAML policies
+  const yaml = loadNodeBuiltin<YamlParser>('js-yaml');
+  if (!yaml || typeof yaml.load !== 'function') {
+    throw new ModelSignatureError('YAML policy files require the "js-yaml" package', 'INVALID_POLICY');
+  }
+  return yaml;
+}
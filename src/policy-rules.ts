@@ -0,0 +1,410 @@
+/**
+ * ModelSignature JavaScript SDK - Built-in Policy Rules
+ * The checks behind PolicyConfig, written as ordinary rules so custom rules run alongside them
+ */
+
+import { ModelInfo, ModelSignatureError, PolicyRule, PolicyRuleViolation } from './types';
+import { compilePattern, findMatchingPattern, getCurrentTime, getTokenAge } from './utils';
+
+/**
+ * Default ordered scales, lowest first; override them with `verificationLevels` and `trustLevels`
+ */
+export const DEFAULT_VERIFICATION_LEVELS: readonly string[] = ['unverified', 'basic', 'verified', 'enhanced'];
+export const DEFAULT_TRUST_LEVELS: readonly string[] = ['untrusted', 'low', 'medium', 'high'];
+
+function violation(code: string, message: string, expected: unknown, actual: unknown): PolicyRuleViolation {
+  return { code, message, expected, actual };
+}
+
+export const issuedAtRule: PolicyRule = {
+  id: 'issued-at',
+  description: 'Token must not be issued in the future, beyond the clock tolerance',
+  severity: 'error',
+  evaluate({ claims, time }) {
+    const now = getCurrentTime(time);
+    if (typeof claims.iat === 'number' && claims.iat - time.clockTolerance > now) {
+      return violation(
+        'TOKEN_ISSUED_IN_FUTURE',
+        `Token issued in the future: iat is ${claims.iat - now}s ahead (tolerance ${time.clockTolerance}s)`,
+        now + time.clockTolerance,
+        claims.iat
+      );
+    }
+  }
+};
+
+export const notBeforeRule: PolicyRule = {
+  id: 'not-before',
+  description: 'Token must have reached its nbf time, within the clock tolerance',
+  severity: 'error',
+  evaluate({ claims, time }) {
+    const now = getCurrentTime(time);
+    if (typeof claims.nbf === 'number' && claims.nbf - time.clockTolerance > now) {
+      return violation(
+        'TOKEN_NOT_YET_VALID',
+        `Token not valid for another ${claims.nbf - now}s`,
+        now + time.clockTolerance,
+        claims.nbf
+      );
+    }
+  }
+};
+
+export const maxTokenAgeRule: PolicyRule = {
+  id: 'max-token-age',
+  description: 'Token must be younger than maxTokenAge',
+  severity: 'error',
+  evaluate({ token, config, time }) {
+    if (config.maxTokenAge === undefined) {
+      return;
+    }
+    const tokenAge = getTokenAge(token, time);
+    if (tokenAge === null) {
+      return violation('TOKEN_AGE_UNKNOWN', 'Unable to determine token age', config.maxTokenAge, null);
+    }
+    if (tokenAge > config.maxTokenAge) {
+      return violation(
+        'TOKEN_TOO_OLD',
+        `Token is too old: ${tokenAge}s > ${config.maxTokenAge}s`,
+        config.maxTokenAge,
+        tokenAge
+      );
+    }
+  }
+};
+
+export const deploymentIdRule: PolicyRule = {
+  id: 'require-deployment-id',
+  description: 'Token must name a deployment when requireDeploymentId is set',
+  severity: 'error',
+  evaluate({ claims, config }) {
+    if (config.requireDeploymentId && !claims.deployment_id) {
+      return violation('DEPLOYMENT_ID_REQUIRED', 'Deployment ID is required but not present in token', 'present', null);
+    }
+  }
+};
+
+export const modelDigestRule: PolicyRule = {
+  id: 'require-model-digest',
+  description: 'Token must carry a model digest when requireModelDigest is set',
+  severity: 'error',
+  evaluate({ claims, config }) {
+    if (config.requireModelDigest && !claims.model_digest) {
+      return violation('MODEL_DIGEST_REQUIRED', 'Model digest is required but not present in token', 'present', null);
+    }
+  }
+};
+
+export const bundleVerificationRule: PolicyRule = {
+  id: 'require-bundle-verification',
+  description: 'Model bundle must be verified when requireBundleVerification is set',
+  severity: 'error',
+  evaluate({ verification, config }) {
+    if (!config.requireBundleVerification) {
+      return;
+    }
+    const bundleCheck = verification.bundle_check;
+    if (!bundleCheck) {
+      return violation(
+        'BUNDLE_MISSING',
+        'Bundle verification is required but no bundle information available',
+        'verified',
+        null
+      );
+    }
+    if (bundleCheck.status !== 'verified') {
+      return violation(
+        'BUNDLE_NOT_VERIFIED',
+        `Bundle verification failed: status is '${bundleCheck.status}'`,
+        'verified',
+        bundleCheck.status
+      );
+    }
+  }
+};
+
+export const deniedProvidersRule: PolicyRule = {
+  id: 'denied-providers',
+  description: 'Provider must not match deniedProviders',
+  severity: 'error',
+  evaluate({ verification, config }) {
+    const provider = verification.provider;
+    const pattern = provider && config.deniedProviders && findMatchingPattern([provider.id], config.deniedProviders);
+    if (provider && pattern) {
+      return violation(
+        'PROVIDER_DENIED',
+        `Provider '${provider.id}' is denied (matches '${pattern}')`,
+        config.deniedProviders,
+        provider.id
+      );
+    }
+  }
+};
+
+export const deniedModelsRule: PolicyRule = {
+  id: 'denied-models',
+  description: 'Model must not match deniedModels',
+  severity: 'error',
+  evaluate({ verification, config }) {
+    const model = verification.model;
+    const pattern = model && config.deniedModels && findMatchingPattern(modelNames(model), config.deniedModels);
+    if (model && pattern) {
+      return violation(
+        'MODEL_DENIED',
+        `Model '${model.id}' is denied (matches '${pattern}')`,
+        config.deniedModels,
+        model.id
+      );
+    }
+  }
+};
+
+export const allowedProvidersRule: PolicyRule = {
+  id: 'allowed-providers',
+  description: 'Provider must match allowedProviders when the list is not empty',
+  severity: 'error',
+  evaluate({ verification, config }) {
+    const provider = verification.provider;
+    if (config.allowedProviders && config.allowedProviders.length > 0) {
+      if (!provider || !findMatchingPattern([provider.id], config.allowedProviders)) {
+        return violation(
+          'PROVIDER_NOT_ALLOWED',
+          `Provider '${provider?.id || 'unknown'}' is not in allowed list`,
+          config.allowedProviders,
+          provider?.id ?? null
+        );
+      }
+    }
+  }
+};
+
+export const allowedModelsRule: PolicyRule = {
+  id: 'allowed-models',
+  description: 'Model must match allowedModels when the list is not empty',
+  severity: 'error',
+  evaluate({ verification, config }) {
+    const model = verification.model;
+    if (config.allowedModels && config.allowedModels.length > 0) {
+      if (!model || !findMatchingPattern(modelNames(model), config.allowedModels)) {
+        return violation(
+          'MODEL_NOT_ALLOWED',
+          `Model '${model?.id || 'unknown'}' is not in allowed list`,
+          config.allowedModels,
+          model?.id ?? null
+        );
+      }
+    }
+  }
+};
+
+export const allowedModelsByProviderRule: PolicyRule = {
+  id: 'allowed-models-by-provider',
+  description: "Model must match its provider's entry in allowedModelsByProvider when the map is not empty",
+  severity: 'error',
+  evaluate({ verification, config }) {
+    const byProvider = config.allowedModelsByProvider;
+    if (!byProvider || Object.keys(byProvider).length === 0) {
+      return;
+    }
+
+    const { provider, model } = verification;
+    // A provider may match several keys, e.g. 'acme' and 'acme-*'; any of their models is allowed
+    const patterns = Object.entries(byProvider)
+      .filter(([providerPattern]) => provider && compilePattern(providerPattern).test(provider.id))
+      .flatMap(([, modelPatterns]) => modelPatterns);
+    if (!model || !findMatchingPattern(modelNames(model), patterns)) {
+      return violation(
+        'MODEL_NOT_ALLOWED_FOR_PROVIDER',
+        `Model '${model?.id || 'unknown'}' is not allowed for provider '${provider?.id || 'unknown'}'`,
+        patterns,
+        model?.id ?? null
+      );
+    }
+  }
+};
+
+export const allowedModelTypesRule: PolicyRule = {
+  id: 'allowed-model-types',
+  description: 'Model type must match allowedModelTypes when the list is not empty',
+  severity: 'error',
+  evaluate({ verification, config }) {
+    const type = verification.model?.type;
+    if (config.allowedModelTypes && config.allowedModelTypes.length > 0) {
+      if (!type || !findMatchingPattern([type], config.allowedModelTypes)) {
+        return violation(
+          'MODEL_TYPE_NOT_ALLOWED',
+          `Model type '${type || 'unknown'}' is not in allowed list`,
+          config.allowedModelTypes,
+          type ?? null
+        );
+      }
+    }
+  }
+};
+
+export const verificationLevelRule: PolicyRule = {
+  id: 'min-verification-level',
+  description: 'Provider verification level must be at least minVerificationLevel',
+  severity: 'error',
+  evaluate({ verification, config }) {
+    if (config.minVerificationLevel === undefined) {
+      return;
+    }
+    return checkLevel(
+      'VERIFICATION_LEVEL',
+      'Provider verification level',
+      verification.provider?.verification_level,
+      config.minVerificationLevel,
+      config.verificationLevels || DEFAULT_VERIFICATION_LEVELS
+    );
+  }
+};
+
+export const verifiedDomainRule: PolicyRule = {
+  id: 'require-verified-domain',
+  description: 'Provider domain must be verified when requireVerifiedDomain is set',
+  severity: 'error',
+  evaluate({ verification, config }) {
+    if (config.requireVerifiedDomain && verification.provider?.domain_verified !== true) {
+      return violation(
+        'DOMAIN_NOT_VERIFIED',
+        `Provider '${verification.provider?.id || 'unknown'}' has not verified its domain`,
+        true,
+        verification.provider?.domain_verified ?? null
+      );
+    }
+  }
+};
+
+export const requiredCapabilitiesRule: PolicyRule = {
+  id: 'required-capabilities',
+  description: 'Model must have every capability in requiredCapabilities',
+  severity: 'error',
+  evaluate({ verification, config }) {
+    if (!config.requiredCapabilities || config.requiredCapabilities.length === 0) {
+      return;
+    }
+    const capabilities = verification.model?.capabilities;
+    const missing = config.requiredCapabilities.filter(capability => !capabilities?.includes(capability));
+    if (missing.length > 0) {
+      return violation(
+        'CAPABILITIES_MISSING',
+        `Model '${verification.model?.id || 'unknown'}' lacks required capabilities: ${missing.join(', ')}`,
+        config.requiredCapabilities,
+        capabilities ?? null
+      );
+    }
+  }
+};
+
+export const trustLevelRule: PolicyRule = {
+  id: 'min-trust-level',
+  description: 'Model trust level must be at least minTrustLevel',
+  severity: 'error',
+  evaluate({ verification, config }) {
+    if (config.minTrustLevel === undefined) {
+      return;
+    }
+    return checkLevel(
+      'TRUST_LEVEL',
+      'Model trust level',
+      verification.model?.trust_level,
+      config.minTrustLevel,
+      config.trustLevels || DEFAULT_TRUST_LEVELS
+    );
+  }
+};
+
+export const bundleCheckAgeRule: PolicyRule = {
+  id: 'max-bundle-check-age',
+  description: 'Model bundle must have been checked within maxBundleCheckAge',
+  severity: 'error',
+  evaluate({ verification, config, time }) {
+    if (config.maxBundleCheckAge === undefined) {
+      return;
+    }
+    const lastChecked = verification.model?.bundle_last_checked ?? verification.bundle_check?.last_checked;
+    const checkedAt = lastChecked ? Date.parse(lastChecked) : NaN;
+    if (Number.isNaN(checkedAt)) {
+      return violation(
+        'BUNDLE_CHECK_AGE_UNKNOWN',
+        'Unable to determine when the bundle was last checked',
+        config.maxBundleCheckAge,
+        null
+      );
+    }
+    const age = getCurrentTime(time) - Math.floor(checkedAt / 1000);
+    if (age > config.maxBundleCheckAge) {
+      return violation(
+        'BUNDLE_CHECK_STALE',
+        `Bundle was last checked too long ago: ${age}s > ${config.maxBundleCheckAge}s`,
+        config.maxBundleCheckAge,
+        age
+      );
+    }
+  }
+};
+
+/**
+ * Compare a level against a minimum on an ordered scale; levels missing from the scale fail,
+ * and a minimum missing from it is a configuration error
+ */
+function checkLevel(
+  code: string,
+  label: string,
+  actual: string | undefined,
+  minimum: string,
+  scale: readonly string[]
+): PolicyRuleViolation | undefined {
+  const minimumRank = scale.indexOf(minimum);
+  if (minimumRank === -1) {
+    throw new ModelSignatureError(
+      `Minimum ${label.toLowerCase()} '${minimum}' is not on the scale ${scale.join(' < ')}`,
+      'INVALID_CONFIG'
+    );
+  }
+
+  const rank = actual === undefined ? -1 : scale.indexOf(actual);
+  if (rank === -1) {
+    return violation(
+      `${code}_UNKNOWN`,
+      actual === undefined ? `${label} is unknown` : `${label} '${actual}' is not on the scale ${scale.join(' < ')}`,
+      minimum,
+      actual ?? null
+    );
+  }
+  if (rank < minimumRank) {
+    return violation(`${code}_TOO_LOW`, `${label} '${actual}' is below '${minimum}'`, minimum, actual);
+  }
+}
+
+/**
+ * Names a model pattern can match: id and name, bare and with `@version`
+ */
+function modelNames(model: ModelInfo): string[] {
+  const names = [model.id, model.name].filter(name => typeof name === 'string' && name.length > 0);
+  return model.version ? [...names, ...names.map(name => `${name}@${model.version}`)] : names;
+}
+
+/**
+ * Built-in rules in evaluation order; each is a no-op unless its PolicyConfig option is set
+ */
+export const BUILT_IN_POLICY_RULES: readonly PolicyRule[] = [
+  issuedAtRule,
+  notBeforeRule,
+  maxTokenAgeRule,
+  deploymentIdRule,
+  modelDigestRule,
+  bundleVerificationRule,
+  deniedProvidersRule,
+  deniedModelsRule,
+  allowedProvidersRule,
+  allowedModelsRule,
+  allowedModelsByProviderRule,
+  allowedModelTypesRule,
+  verificationLevelRule,
+  verifiedDomainRule,
+  requiredCapabilitiesRule,
+  trustLevelRule,
+  bundleCheckAgeRule
+];
@@ -9,17 +9,50 @@ import {
   VerificationResult,
   PolicyViolationError,
   ModelSignatureError,
-  JWTClaims
+  JWTClaims,
+  BatchOptions,
+  BatchPolicyResult,
+  CallOptions,
+  Clock,
+  TimeOptions,
+  PolicyRule,
+  PolicyRuleContext,
+  PolicyRuleViolation,
+  PolicyViolation
 } from './types';
 import { ModelSignatureClient } from './client';
-import { getTokenAge, parseJWT, isTokenExpired } from './utils';
+import { parseJWT, mapWithConcurrency, isCancellationError } from './utils';
+import { VerificationCache, CacheStats } from './cache';
+import { LoadConfigOptions, loadConfig, validatePolicyConfig } from './config';
+import { BUILT_IN_POLICY_RULES } from './policy-rules';
+
+export interface PolicyEnforcerOptions {
+  cache?: VerificationCache | false; // defaults to an in-memory LRU cache
+  clock?: Clock; // defaults to the client's clock
+  rules?: PolicyRule[]; // custom rules, run after the built-in rules
+}
+
+/**
+ * Violation raised by the enforcer itself rather than by a registered rule
+ */
+function violation(code: string, ruleId: string, message: string): PolicyViolation {
+  return { code, ruleId, severity: 'error', message };
+}
 
 export class PolicyEnforcer {
   private client: ModelSignatureClient;
   private config: PolicyConfig;
+  private cache: VerificationCache | null;
+  private clock?: Clock;
+  private rules: PolicyRule[] = [...BUILT_IN_POLICY_RULES];
 
-  constructor(client: ModelSignatureClient, config: PolicyConfig = {}) {
+  constructor(client: ModelSignatureClient, config: PolicyConfig = {}, options: PolicyEnforcerOptions = {}) {
     this.client = client;
+    this.cache = options.cache === false ? null : options.cache || new VerificationCache();
+    this.clock = options.clock;
+    for (const rule of options.rules || []) {
+      this.addRule(rule);
+    }
     this.config = {
       requireDeploymentId: false,
       requireModelDigest: false,
@@ -30,41 +63,58 @@ export class PolicyEnforcer {
       failClosed: true, // Fail securely by default
       ...config
     };
+    // Catch misconfiguration here rather than denying every token at evaluation time
+    validatePolicyConfig(this.config);
+  }
+
+  /**
+   * Create an enforcer and its client from explicit options, environment variables and a config
+   * file profile; the profile's `policy` is the default policy
+   * @param options Explicit client and policy options and profile selection
+   * @param enforcerOptions Enforcer options such as the verification cache
+   * @returns PolicyEnforcer with validated configuration
+   */
+  static fromEnv(options: LoadConfigOptions = {}, enforcerOptions: PolicyEnforcerOptions = {}): PolicyEnforcer {
+    const { client, policy } = loadConfig(options);
+    return new PolicyEnforcer(new ModelSignatureClient(client), policy, enforcerOptions);
   }
 
   /**
    * Enforce policy on a JWT token
    * @param token JWT token to validate
+   * @param options Cancellation signal and deadline
    * @returns Policy result with allowed status and reasons
    */
-  async enforcePolicy(token: string): Promise<PolicyResult> {
-    const violations: string[] = [];
+  async enforcePolicy(token: string, options: CallOptions = {}): Promise<PolicyResult> {
+    const startedAt = Date.now();
+    const violations: PolicyViolation[] = [];
     let verification: VerificationResult;
 
     try {
       // First verify the token
-      verification = await this.client.verifyToken(token);
+      verification = await this.verifyToken(token, options);
 
       if (!verification.valid) {
-        violations.push(`Token verification failed: ${verification.error}`);
-        return this.buildResult(false, violations, verification);
+        violations.push(violation('VERIFICATION_FAILED', 'verification', `Token verification failed: ${verification.error}`));
+        return this.recordDecision(this.buildResult(violations, verification), startedAt);
       }
 
       // Now enforce policy rules
-      this.checkTokenPolicy(token, verification, violations);
-      
+      await this.checkTokenPolicy(token, verification, violations, options);
+
     } catch (error) {
-      let errorMessage = error instanceof Error ? error.message : 'Unknown verification error';
-      
-      // Extract original error message from retry wrapper
-      if (errorMessage.includes('Request failed after') && errorMessage.includes('attempts:')) {
-        const match = errorMessage.match(/attempts: (.+)$/);
-        if (match) {
-          errorMessage = match[1];
-        }
+      // A cancelled check is not a policy decision
+      if (isCancellationError(error)) {
+        throw error;
       }
-      
-      violations.push(`Verification request failed: ${errorMessage}`);
+
+      // Transient failures that outlasted the retries mean the API is down, just like an open circuit
+      if (error instanceof ModelSignatureError && (error.code === 'CIRCUIT_OPEN' || error.retryable)) {
+        return this.handleApiUnavailable(error, startedAt);
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown verification error';
+      violations.push(violation('VERIFICATION_ERROR', 'verification', `Verification request failed: ${errorMessage}`));
       
       verification = {
         valid: false,
@@ -72,14 +122,14 @@ export class PolicyEnforcer {
       };
     }
 
-    const allowed = violations.length === 0;
-    const result = this.buildResult(allowed, violations, verification);
+    const result = this.recordDecision(this.buildResult(violations, verification), startedAt);
 
     // Throw error if policy violated and fail-closed mode is enabled
-    if (!allowed && this.config.failClosed) {
+    if (!result.allowed && this.config.failClosed) {
       throw new PolicyViolationError(
-        `Policy violation: ${violations.join(', ')}`,
-        violations
+        `Policy violation: ${result.reasons.join(', ')}`,
+        result.reasons,
+        result.violations
       );
     }
 
@@ -87,85 +137,210 @@ export class PolicyEnforcer {
   }
 
   /**
-   * Check token-level policy rules
+   * Report a decision to the client's `policy:decision` listeners
+   * @param result Policy result
+   * @param startedAt When enforcement started (epoch milliseconds)
+   * @returns The same result
+   */
+  private recordDecision(result: PolicyResult, startedAt: number): PolicyResult {
+    this.client.events.emit('policy:decision', {
+      allowed: result.allowed,
+      violations: result.violations.filter(v => v.severity === 'error'),
+      degraded: !!result.degraded,
+      modelId: result.verification.claims?.model_id,
+      providerId: result.verification.claims?.provider_id,
+      durationMs: Date.now() - startedAt
+    });
+    return result;
+  }
+
+  /**
+   * Decide without the API while its circuit breaker is open
+   * Fail-closed policies deny immediately; fail-open policies allow and record why.
+   * @param error The circuit-open error from the client
+   * @param startedAt When enforcement started (epoch milliseconds)
+   * @returns Degraded policy result
+   */
+  private handleApiUnavailable(error: ModelSignatureError, startedAt: number): PolicyResult {
+    const verification: VerificationResult = { valid: false, error: error.message };
+
+    if (this.config.failClosed) {
+      const violations = [violation('API_UNAVAILABLE', 'api-availability', `API_UNAVAILABLE: ${error.message}`)];
+      const result = this.recordDecision(this.buildResult(violations, verification), startedAt);
+      throw new PolicyViolationError(`Policy violation: ${result.reasons.join(', ')}`, result.reasons, result.violations);
+    }
+
+    return this.recordDecision({
+      ...this.buildResult([], verification),
+      degraded: {
+        reason: 'API_UNAVAILABLE',
+        message: error.message
+      }
+    }, startedAt);
+  }
+
+  /**
+   * Enforce policy on many tokens with bounded concurrency
+   * In fail-closed mode a violation is reported as that token's error rather than rejecting the batch.
+   * @param tokens JWT tokens to validate
+   * @param options Batch options, cancellation signal and deadline
+   * @returns One entry per input token, in input order
+   */
+  async enforcePolicyBatch(
+    tokens: string[],
+    options: BatchOptions & CallOptions = {}
+  ): Promise<BatchPolicyResult[]> {
+    const { concurrency, ...callOptions } = options;
+    return mapWithConcurrency(tokens, concurrency ?? 5, async (token) => {
+      try {
+        return { token, result: await this.enforcePolicy(token, callOptions) };
+      } catch (error) {
+        return { token, error: error as Error };
+      }
+    });
+  }
+
+  /**
+   * Verify a token, serving repeated checks from the verification cache
+   * @param token JWT token string
+   * @param options Cancellation signal and deadline
+   * @returns Verification result
+   */
+  private async verifyToken(token: string, options: CallOptions): Promise<VerificationResult> {
+    if (!this.cache) {
+      return this.client.verifyToken(token, options);
+    }
+
+    const time = this.getTimeOptions();
+    const lookupStartedAt = Date.now();
+    const cached = await this.cache.get(token, time);
+    const lookup = { jti: parseJWT(token)?.jti, durationMs: Date.now() - lookupStartedAt };
+    if (cached) {
+      this.client.events.emit('cache:hit', lookup);
+      return cached;
+    }
+    this.client.events.emit('cache:miss', lookup);
+
+    const verification = await this.client.verifyToken(token, options);
+    await this.cache.set(token, verification, time);
+    return verification;
+  }
+
+  /**
+   * Run every registered rule against a verified token
+   * Rules run concurrently; their violations are collected in registration order.
+   * A rule that throws counts as a violation of that rule.
    * @param token JWT token string
    * @param verification Verification result
-   * @param violations Array to collect violations
+   * @param violations Array to collect violations of every severity
+   * @param options Cancellation signal, passed on to rules
    */
-  private checkTokenPolicy(
+  private async checkTokenPolicy(
     token: string, 
     verification: VerificationResult, 
-    violations: string[]
-  ): void {
+    violations: PolicyViolation[],
+    options: CallOptions
+  ): Promise<void> {
     const claims = verification.claims;
-    const model = verification.model;
-    const provider = verification.provider;
-    const bundleCheck = verification.bundle_check;
 
     if (!claims) {
-      violations.push('No claims found in token');
+      violations.push(violation('MISSING_CLAIMS', 'verification', 'No claims found in token'));
       return;
     }
 
-    // Check token age
-    if (this.config.maxTokenAge !== undefined) {
-      const tokenAge = getTokenAge(token);
-      if (tokenAge === null) {
-        violations.push('Unable to determine token age');
-      } else if (tokenAge > this.config.maxTokenAge) {
-        violations.push(`Token is too old: ${tokenAge}s > ${this.config.maxTokenAge}s`);
-      }
-    }
-
-    // Check if deployment ID is required
-    if (this.config.requireDeploymentId && !claims.deployment_id) {
-      violations.push('Deployment ID is required but not present in token');
-    }
-
-    // Check if model digest is required  
-    if (this.config.requireModelDigest && !claims.model_digest) {
-      violations.push('Model digest is required but not present in token');
-    }
+    const context: PolicyRuleContext = {
+      token,
+      claims,
+      verification: await this.withRegistryMetadata(verification, options),
+      config: this.getConfig(),
+      time: this.getTimeOptions(),
+      signal: options.signal
+    };
 
-    // Check bundle verification requirement
-    if (this.config.requireBundleVerification) {
-      if (!bundleCheck) {
-        violations.push('Bundle verification is required but no bundle information available');
-      } else if (bundleCheck.status !== 'verified') {
-        violations.push(`Bundle verification failed: status is '${bundleCheck.status}'`);
+    const rules = [...this.rules];
+    const outcomes = await Promise.all(rules.map(async (rule): Promise<PolicyRuleViolation[]> => {
+      try {
+        const outcome = await rule.evaluate(context);
+        return outcome ? ([] as PolicyRuleViolation[]).concat(outcome) : [];
+      } catch (error) {
+        if (isCancellationError(error)) {
+          throw error;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        return [{ code: 'RULE_ERROR', message: `Rule '${rule.id}' failed: ${message}` }];
       }
-    }
+    }));
 
-    // Check allowed providers
-    if (this.config.allowedProviders && this.config.allowedProviders.length > 0) {
-      if (!provider || !this.config.allowedProviders.includes(provider.id)) {
-        violations.push(`Provider '${provider?.id || 'unknown'}' is not in allowed list`);
+    outcomes.forEach((ruleViolations, index) => {
+      const { id, severity } = rules[index];
+      for (const ruleViolation of ruleViolations) {
+        violations.push({ ...ruleViolation, ruleId: id, severity });
       }
+    });
+  }
+
+  /**
+   * Fill in model capabilities and trust level from the public registry when the policy needs
+   * them and the verification response left them out
+   * A failed lookup leaves them missing, which the rules then report.
+   * @param verification Verification result
+   * @param options Cancellation signal and deadline
+   * @returns Verification result with registry metadata on the model
+   */
+  private async withRegistryMetadata(verification: VerificationResult, options: CallOptions): Promise<VerificationResult> {
+    const model = verification.model;
+    const needsCapabilities = !!this.config.requiredCapabilities?.length && model?.capabilities === undefined;
+    const needsTrustLevel = this.config.minTrustLevel !== undefined && model?.trust_level === undefined;
+    if (!model || !(needsCapabilities || needsTrustLevel)) {
+      return verification;
     }
 
-    // Check allowed models
-    if (this.config.allowedModels && this.config.allowedModels.length > 0) {
-      if (!model || !this.config.allowedModels.includes(model.id)) {
-        violations.push(`Model '${model?.id || 'unknown'}' is not in allowed list`);
+    try {
+      const registered = await this.client.getPublicModel(model.id, options);
+      return {
+        ...verification,
+        model: {
+          ...model,
+          capabilities: model.capabilities ?? registered.capabilities,
+          trust_level: model.trust_level ?? registered.trust_level
+        }
+      };
+    } catch (error) {
+      if (isCancellationError(error)) {
+        throw error;
       }
+      return verification;
     }
   }
 
   /**
-   * Build policy result
-   * @param allowed Whether the policy allows the token
+   * Clock and skew tolerance for time-based rules, falling back to the client's settings
+   */
+  private getTimeOptions(): Required<TimeOptions> {
+    const clientConfig = this.client.getConfig();
+    return {
+      clock: this.clock || clientConfig.clock,
+      clockTolerance: this.config.clockTolerance ?? clientConfig.clockTolerance
+    };
+  }
+
+  /**
+   * Build policy result; the token is allowed unless an 'error' violation was found
    * @param violations List of policy violations
    * @param verification Original verification result
    * @returns PolicyResult
    */
   private buildResult(
-    allowed: boolean, 
-    violations: string[], 
+    violations: PolicyViolation[], 
     verification: VerificationResult
   ): PolicyResult {
+    const errors = violations.filter(v => v.severity === 'error');
+    const warnings = violations.filter(v => v.severity === 'warning');
     return {
-      allowed,
-      reasons: violations,
+      allowed: errors.length === 0,
+      reasons: errors.map(v => v.message),
+      ...(warnings.length > 0 && { warnings: warnings.map(v => v.message) }),
+      violations,
       verification
     };
   }
@@ -175,10 +350,12 @@ export class PolicyEnforcer {
    * @param config New policy configuration
    */
   updateConfig(config: Partial<PolicyConfig>): void {
-    this.config = {
+    const updated = {
       ...this.config,
       ...config
     };
+    validatePolicyConfig(updated);
+    this.config = updated;
   }
 
   /**
@@ -188,11 +365,65 @@ export class PolicyEnforcer {
     return { ...this.config };
   }
 
+  /**
+   * Register a rule; it runs after the rules registered before it
+   * @param rule Rule with a unique id
+   * @throws ModelSignatureError with code INVALID_CONFIG for a malformed rule or a duplicate id
+   */
+  addRule(rule: PolicyRule): void {
+    const problems: string[] = [];
+    if (!rule || typeof rule.id !== 'string' || rule.id.length === 0) {
+      problems.push('id must be a non-empty string');
+    } else if (this.rules.some(existing => existing.id === rule.id)) {
+      problems.push(`a rule with id '${rule.id}' is already registered`);
+    }
+    if (rule && rule.severity !== 'error' && rule.severity !== 'warning') {
+      problems.push("severity must be 'error' or 'warning'");
+    }
+    if (!rule || typeof rule.evaluate !== 'function') {
+      problems.push('evaluate must be a function');
+    }
+    if (problems.length > 0) {
+      throw new ModelSignatureError(`Invalid policy rule: ${problems.join('; ')}`, 'INVALID_CONFIG');
+    }
+    this.rules.push(rule);
+  }
+
+  /**
+   * Unregister a rule; built-in rules can be removed or replaced too
+   * @param id Rule id
+   * @returns Whether a rule was removed
+   */
+  removeRule(id: string): boolean {
+    const index = this.rules.findIndex(rule => rule.id === id);
+    if (index === -1) {
+      return false;
+    }
+    this.rules.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Get registered rules, built-in rules first, in evaluation order
+   */
+  getRules(): PolicyRule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * Get verification cache hit and miss counters
+   * @returns Cache statistics, or null if caching is disabled
+   */
+  getCacheStats(): CacheStats | null {
+    return this.cache ? this.cache.getStats() : null;
+  }
+
   /**
    * Quick policy check with custom rules (shorthand method)
    * @param token JWT token
    * @param rules Quick policy rules
-   * @returns Whether token passes policy
+   * @param options Cancellation signal and deadline
+   * @returns Whether token passes policy (cancellation still rejects)
    */
   async quickCheck(
     token: string, 
@@ -201,7 +432,8 @@ export class PolicyEnforcer {
       requireDigest?: boolean;
       maxAge?: number;
       allowedProviders?: string[];
-    } = {}
+    } = {},
+    options: CallOptions = {}
   ): Promise<boolean> {
     try {
       const tempConfig: PolicyConfig = {
@@ -209,14 +441,19 @@ export class PolicyEnforcer {
         requireDeploymentId: rules.requireDeployment ?? this.config.requireDeploymentId,
         requireModelDigest: rules.requireDigest ?? this.config.requireModelDigest,
         maxTokenAge: rules.maxAge ?? this.config.maxTokenAge,
-        allowedProviders: rules.allowedProviders ?? this.config.allowedProviders,
-        failClosed: false // Don't throw for quick check
+        allowedProviders: rules.allowedProviders ?? this.config.allowedProviders
+        // failClosed is kept: it also decides whether an open circuit allows the token.
+        // Fail-closed violations throw, and the catch below turns them into false.
       };
 
-      const tempEnforcer = new PolicyEnforcer(this.client, tempConfig);
-      const result = await tempEnforcer.enforcePolicy(token);
+      const tempEnforcer = new PolicyEnforcer(this.client, tempConfig, { cache: this.cache || false, clock: this.clock });
+      tempEnforcer.rules = [...this.rules];
+      const result = await tempEnforcer.enforcePolicy(token, options);
       return result.allowed;
     } catch (error) {
+      if (isCancellationError(error)) {
+        throw error;
+      }
       return false;
     }
   }
@@ -226,11 +463,13 @@ export class PolicyEnforcer {
  * Convenience function to create a policy enforcer with fail-closed mode
  * @param client ModelSignature client
  * @param config Policy configuration
+ * @param options Enforcer options such as the verification cache
  * @returns PolicyEnforcer configured for production use
  */
 export function createSecurePolicy(
   client: ModelSignatureClient, 
-  config: PolicyConfig = {}
+  config: PolicyConfig = {},
+  options: PolicyEnforcerOptions = {}
 ): PolicyEnforcer {
   return new PolicyEnforcer(client, {
     failClosed: true,
@@ -238,18 +477,20 @@ export function createSecurePolicy(
     requireModelDigest: true,
     maxTokenAge: 300, // 5 minutes for production
     ...config
-  });
+  }, options);
 }
 
 /**
  * Convenience function to create a lenient policy enforcer
  * @param client ModelSignature client
  * @param config Policy configuration
+ * @param options Enforcer options such as the verification cache
  * @returns PolicyEnforcer configured for development/testing
  */
 export function createLenientPolicy(
   client: ModelSignatureClient, 
-  config: PolicyConfig = {}
+  config: PolicyConfig = {},
+  options: PolicyEnforcerOptions = {}
 ): PolicyEnforcer {
   return new PolicyEnforcer(client, {
     failClosed: false,
@@ -257,5 +498,5 @@ export function createLenientPolicy(
     requireModelDigest: false,
     maxTokenAge: 3600, // 1 hour for development
     ...config
-  });
+  }, options);
 }
\ No newline at end of file
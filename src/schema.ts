@@ -0,0 +1,268 @@
+/**
+ * ModelSignature JavaScript SDK - Response Schemas
+ * Runtime validation of API responses against the typed interfaces in types.ts
+ */
+
+import {
+  ModelSignatureError,
+  VerificationResult,
+  ResponseBinding,
+  JWTClaims,
+  ModelInfo,
+  ProviderInfo,
+  BundleCheck,
+  Deployment,
+  OperationResult,
+  VerificationRecord,
+  RegisteredModel,
+  PublicModel,
+  PublicProvider,
+  SearchResult,
+  PaginatedResponse
+} from './types';
+
+/**
+ * A validator returns the value typed as T or throws a SchemaError
+ */
+export type Validator<T> = (value: unknown, path: string) => T;
+
+export class SchemaError extends Error {
+  constructor(public path: string, expected: string, value: unknown) {
+    super(`${path}: expected ${expected}, got ${describe(value)}`);
+    this.name = 'SchemaError';
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+export const string: Validator<string> = (value, path) => {
+  if (typeof value !== 'string') throw new SchemaError(path, 'string', value);
+  return value;
+};
+
+export const number: Validator<number> = (value, path) => {
+  if (typeof value !== 'number' || Number.isNaN(value)) throw new SchemaError(path, 'number', value);
+  return value;
+};
+
+export const boolean: Validator<boolean> = (value, path) => {
+  if (typeof value !== 'boolean') throw new SchemaError(path, 'boolean', value);
+  return value;
+};
+
+export const unknown: Validator<any> = (value) => value;
+
+export function oneOf<T extends string>(...values: T[]): Validator<T> {
+  return (value, path) => {
+    if (typeof value !== 'string' || !(values as string[]).includes(value)) {
+      throw new SchemaError(path, `one of ${values.map(v => `'${v}'`).join(', ')}`, value);
+    }
+    return value as T;
+  };
+}
+
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path) => (value === undefined || value === null ? undefined : validator(value, path));
+}
+
+export function array<T>(item: Validator<T>): Validator<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) throw new SchemaError(path, 'array', value);
+    return value.map((entry, index) => item(entry, `${path}[${index}]`));
+  };
+}
+
+export function record<T>(item: Validator<T>): Validator<Record<string, T>> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new SchemaError(path, 'object', value);
+    }
+    for (const [key, entry] of Object.entries(value)) {
+      item(entry, `${path}.${key}`);
+    }
+    return value as Record<string, T>;
+  };
+}
+
+/**
+ * Validate an object's declared fields; unknown extra fields are passed through
+ * so additive backend changes do not break clients.
+ */
+export function object<T>(shape: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new SchemaError(path, 'object', value);
+    }
+    const input = value as Record<string, unknown>;
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      shape[key](input[key], `${path}.${key}`);
+    }
+    return value as T;
+  };
+}
+
+const bundleStatus = oneOf('unknown', 'verified', 'invalid', 'error');
+const canonicalization = oneOf('raw', 'text-normalized', 'json-canonical');
+
+export const jwtClaims: Validator<JWTClaims> = object<JWTClaims>({
+  model_id: string,
+  provider_id: string,
+  user_fp: string,
+  deployment_id: optional(string),
+  model_digest: optional(string),
+  nbf: optional(number),
+  response_hash: optional(string),
+  response_canonicalization: optional(canonicalization),
+  bound_to_response: optional(boolean),
+  iss: optional(string),
+  iat: number,
+  exp: number,
+  jti: string
+});
+
+export const modelInfo: Validator<ModelInfo> = object<ModelInfo>({
+  id: string,
+  name: string,
+  version: string,
+  type: optional(string),
+  model_digest: optional(string),
+  sigstore_bundle_url: optional(string),
+  bundle_status: optional(bundleStatus),
+  bundle_last_checked: optional(string),
+  capabilities: optional(array(string)),
+  trust_level: optional(string)
+});
+
+export const providerInfo: Validator<ProviderInfo> = object<ProviderInfo>({
+  id: string,
+  name: string,
+  website: optional(string),
+  verification_level: optional(string),
+  domain_verified: optional(boolean)
+});
+
+export const bundleCheck: Validator<BundleCheck> = object<BundleCheck>({
+  status: bundleStatus,
+  last_checked: optional(string),
+  details: unknown
+});
+
+export const verificationResult: Validator<VerificationResult> = object<VerificationResult>({
+  valid: boolean,
+  claims: optional(jwtClaims),
+  model: optional(modelInfo),
+  provider: optional(providerInfo),
+  bundle_check: optional(bundleCheck),
+  error: optional(string)
+});
+
+export const responseBinding: Validator<ResponseBinding> = object<ResponseBinding>({
+  response_hash: string,
+  bound_token: string,
+  verification_url: string,
+  canonicalization: optional(canonicalization)
+});
+
+export const deployment: Validator<Deployment> = object<Deployment>({
+  id: string,
+  name: string,
+  description: optional(string),
+  endpoint_url: string,
+  certificate_fingerprint: optional(string),
+  deployment_type: optional(string),
+  status: string,
+  metadata: optional(record(unknown)),
+  created_at: optional(string),
+  updated_at: optional(string)
+});
+
+export const operationResult: Validator<OperationResult> = object<OperationResult>({
+  success: optional(boolean),
+  message: optional(string)
+});
+
+export const verificationRecord: Validator<VerificationRecord> = object<VerificationRecord>({
+  verification_url: string,
+  token: optional(string),
+  expires_in: optional(number),
+  deployment_id: optional(string)
+});
+
+export const registeredModel: Validator<RegisteredModel> = object<RegisteredModel>({
+  model_id: string,
+  name: string,
+  version: optional(string),
+  message: optional(string)
+});
+
+export const publicModel: Validator<PublicModel> = object<PublicModel>({
+  id: string,
+  name: string,
+  version: string,
+  type: optional(string),
+  model_digest: optional(string),
+  sigstore_bundle_url: optional(string),
+  bundle_status: optional(bundleStatus),
+  bundle_last_checked: optional(string),
+  provider_id: optional(string),
+  description: optional(string),
+  license: optional(string),
+  homepage_url: optional(string),
+  capabilities: optional(array(string)),
+  trust_level: optional(string)
+});
+
+export const publicProvider: Validator<PublicProvider> = object<PublicProvider>({
+  id: string,
+  name: string,
+  website: optional(string),
+  verification_level: optional(string),
+  domain_verified: optional(boolean),
+  description: optional(string),
+  model_count: optional(number)
+});
+
+export const searchResult: Validator<SearchResult> = object<SearchResult>({
+  type: oneOf('model', 'provider'),
+  id: string,
+  name: string,
+  description: optional(string),
+  provider_id: optional(string),
+  verified: optional(boolean),
+  trust_level: optional(string),
+  score: optional(number)
+});
+
+export function paginated<T>(item: Validator<T>): Validator<PaginatedResponse<T>> {
+  return object<PaginatedResponse<T>>({
+    items: array(item),
+    total: optional(number),
+    limit: optional(number),
+    offset: optional(number)
+  });
+}
+
+/**
+ * Validate an API response, converting schema failures into a ModelSignatureError
+ * @param validator Validator for the expected response type
+ * @param data Parsed response body
+ * @param endpoint Endpoint the response came from (for the error message)
+ * @returns The typed response
+ */
+export function validateResponse<T>(validator: Validator<T>, data: unknown, endpoint: string): T {
+  try {
+    return validator(data, 'response');
+  } catch (error) {
+    if (error instanceof SchemaError) {
+      throw new ModelSignatureError(
+        `Invalid response from ${endpoint}: ${error.message}`,
+        'INVALID_RESPONSE_SCHEMA'
+      );
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * ModelSignature JavaScript SDK - Telemetry Adapters
+ * OpenTelemetry tracing and decision metrics built on the lifecycle events
+ */
+
+import { EventBus, RequestStartEvent } from './events';
+import { RequestContext } from './types';
+
+type EventSource = Pick<EventBus, 'on'>;
+
+/**
+ * Structural subset of the OpenTelemetry `Span` API, so the SDK does not depend on
+ * `@opentelemetry/api`; pass a tracer from `trace.getTracer(...)`.
+ */
+export interface OTelSpan {
+  spanContext(): { traceId: string; spanId: string; traceFlags: number };
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error): unknown;
+  end(): void;
+}
+
+export interface OTelTracer {
+  startSpan(
+    name: string,
+    options?: { kind?: number; attributes?: Record<string, string | number | boolean> }
+  ): OTelSpan;
+}
+
+export interface OpenTelemetryOptions {
+  tracer: OTelTracer;
+  propagate?: boolean; // send a W3C `traceparent` header, defaults to true
+}
+
+// Values of the OpenTelemetry SpanKind and SpanStatusCode enums
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_OK = 1;
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Build a W3C `traceparent` header value for a span
+ * @param span Active span
+ * @returns Header value, e.g. `00-<trace-id>-<span-id>-01`
+ */
+export function formatTraceparent(span: OTelSpan): string {
+  const { traceId, spanId, traceFlags } = span.spanContext();
+  return `00-${traceId}-${spanId}-${(traceFlags & 0xff).toString(16).padStart(2, '0')}`;
+}
+
+/**
+ * Create a client span for every HTTP attempt and propagate its trace context
+ * @param source Client (or event bus) to instrument
+ * @param options Tracer and propagation settings
+ * @returns Function that removes the instrumentation again
+ */
+export function instrumentOpenTelemetry(source: EventSource, options: OpenTelemetryOptions): () => void {
+  const spans = new WeakMap<RequestContext, OTelSpan>();
+  const propagate = options.propagate ?? true;
+
+  const onStart = (event: RequestStartEvent) => {
+    const span = options.tracer.startSpan(`ModelSignature ${event.method} ${event.endpoint}`, {
+      kind: SPAN_KIND_CLIENT,
+      attributes: {
+        'http.request.method': event.method,
+        'url.path': event.endpoint,
+        'http.request.resend_count': event.attempt
+      }
+    });
+    spans.set(event.request, span);
+    if (propagate) {
+      event.setHeader('traceparent', formatTraceparent(span));
+    }
+  };
+
+  const unsubscribers = [
+    source.on('request:start', onStart),
+    source.on('request:end', (event) => {
+      const span = spans.get(event.request);
+      if (!span) {
+        return;
+      }
+      spans.delete(event.request);
+
+      if (event.status !== undefined) {
+        span.setAttribute('http.response.status_code', event.status);
+      }
+      if (event.error) {
+        span.recordException(event.error);
+      }
+      span.setStatus(event.outcome === 'success'
+        ? { code: SPAN_STATUS_OK }
+        : { code: SPAN_STATUS_ERROR, message: event.error?.message ?? `HTTP ${event.status}` });
+      span.end();
+    })
+  ];
+
+  return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+}
+
+/**
+ * Destination for counters and timings (Prometheus, StatsD, OpenTelemetry metrics, ...)
+ */
+export interface MetricsSink {
+  increment(name: string, labels: Record<string, string>): void;
+  observe?(name: string, value: number, labels: Record<string, string>): void;
+}
+
+export interface PolicyMetricsSnapshot {
+  allowed: number;
+  denied: number;
+  degraded: number; // allowed in fail-open mode while the API was unavailable
+  violations: Record<string, number>; // denied decisions per violation type
+  requests: { success: number; error: number; retries: number };
+  cache: { hits: number; misses: number };
+}
+
+/**
+ * Counts allowed versus denied decisions per violation type, plus request and cache outcomes.
+ * Counters are kept in memory and optionally forwarded to a sink.
+ */
+export class MetricsCollector {
+  private sink?: MetricsSink;
+  private snapshot: PolicyMetricsSnapshot = MetricsCollector.empty();
+
+  constructor(sink?: MetricsSink) {
+    this.sink = sink;
+  }
+
+  /**
+   * Start collecting from a client (or event bus)
+   * @param source Client to observe
+   * @returns Function that stops collecting
+   */
+  attach(source: EventSource): () => void {
+    const unsubscribers = [
+      source.on('policy:decision', (event) => {
+        const decision = event.allowed ? 'allowed' : 'denied';
+        this.snapshot[decision]++;
+        if (event.degraded) {
+          this.snapshot.degraded++;
+        }
+        this.sink?.increment('modelsignature.policy.decisions', { decision });
+        this.sink?.observe?.('modelsignature.policy.duration_ms', event.durationMs, { decision });
+
+        for (const { code } of event.violations) {
+          this.snapshot.violations[code] = (this.snapshot.violations[code] || 0) + 1;
+          this.sink?.increment('modelsignature.policy.violations', { type: code });
+        }
+      }),
+      source.on('request:end', (event) => {
+        this.snapshot.requests[event.outcome]++;
+        const labels = { endpoint: event.endpoint, outcome: event.outcome };
+        this.sink?.increment('modelsignature.requests', labels);
+        this.sink?.observe?.('modelsignature.request.duration_ms', event.durationMs, labels);
+      }),
+      source.on('request:retry', (event) => {
+        this.snapshot.requests.retries++;
+        this.sink?.increment('modelsignature.request.retries', { endpoint: event.endpoint });
+      }),
+      source.on('cache:hit', () => {
+        this.snapshot.cache.hits++;
+        this.sink?.increment('modelsignature.cache.lookups', { result: 'hit' });
+      }),
+      source.on('cache:miss', () => {
+        this.snapshot.cache.misses++;
+        this.sink?.increment('modelsignature.cache.lookups', { result: 'miss' });
+      })
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  /**
+   * Get a copy of the counters
+   */
+  getSnapshot(): PolicyMetricsSnapshot {
+    return {
+      ...this.snapshot,
+      violations: { ...this.snapshot.violations },
+      requests: { ...this.snapshot.requests },
+      cache: { ...this.snapshot.cache }
+    };
+  }
+
+  /**
+   * Reset all counters to zero
+   */
+  reset(): void {
+    this.snapshot = MetricsCollector.empty();
+  }
+
+  private static empty(): PolicyMetricsSnapshot {
+    return {
+      allowed: 0,
+      denied: 0,
+      degraded: 0,
+      violations: {},
+      requests: { success: 0, error: 0, retries: 0 },
+      cache: { hits: 0, misses: 0 }
+    };
+  }
+}
@@ -0,0 +1,655 @@
+/**
+ * ModelSignature JavaScript SDK - Testing Utilities
+ * In-process stand-in for the ModelSignature API, exposed as `@modelsignature/sdk/testing`
+ */
+
+import {
+  FetchFunction,
+  JWTClaims,
+  JSONWebKeySet,
+  VerificationResult,
+  PublicModel,
+  PublicProvider,
+  Deployment,
+  SearchResult,
+  PaginatedResponse,
+  CanonicalizationProfile
+} from './types';
+import { getSubtleCrypto, base64UrlToBytes, bytesToBase64Url, hashOutput, sleep, loadNodeBuiltin } from './utils';
+import { verifyJWSSignature } from './jwks';
+import { CANONICALIZATION_PROFILES } from './canonicalize';
+
+export interface MockFault {
+  route?: string | RegExp; // path prefix or pattern to match, defaults to every route
+  method?: string;
+  status?: number; // respond with this HTTP status instead of handling the request
+  retryAfter?: number; // seconds, sent as Retry-After (useful with status 429)
+  latency?: number; // milliseconds to wait before responding
+  body?: unknown; // error body, defaults to `{ detail: 'Injected fault' }`
+  times?: number; // number of matching requests affected, defaults to unlimited
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body?: any;
+}
+
+export interface MockServerOptions {
+  issuer?: string; // `iss` of minted tokens and the base URL used by `fetch`
+  apiKey?: string; // when set, private routes require `Authorization: Bearer <apiKey>`
+  models?: PublicModel[];
+  providers?: PublicProvider[];
+  tokenTtl?: number; // seconds, defaults to 900
+  legacyTokenRoutes?: boolean; // only accept tokens in the URL path, like API versions before body transport
+}
+
+export interface MintTokenOptions {
+  kid?: string; // override the signing key ID, e.g. to simulate key rotation
+  ttl?: number; // seconds until `exp`, defaults to the server's tokenTtl
+  signature?: string; // replace the signature, e.g. to produce a forged token
+}
+
+interface MockResponse {
+  status: number;
+  body: unknown;
+  text?: string; // plain-text body sent instead of JSON, as routers answer unknown paths
+  headers?: Record<string, string>;
+}
+
+interface SigningKey {
+  kid: string;
+  privateKey: CryptoKey;
+  publicKey: CryptoKey;
+  jwk: JsonWebKey;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public plainText: boolean = false) {
+    super(message);
+  }
+}
+
+/**
+ * In-memory ModelSignature API.
+ * Pass `server.fetch` as the client's `fetch`, or call `listen()` for a real HTTP endpoint.
+ */
+export class MockModelSignatureServer {
+  readonly issuer: string;
+  readonly requests: RecordedRequest[] = [];
+  private options: MockServerOptions;
+  private models = new Map<string, PublicModel>();
+  private providers = new Map<string, PublicProvider>();
+  private deployments = new Map<string, Deployment>();
+  private allowedDeployments = new Map<string, Set<string>>();
+  private revoked = new Set<string>();
+  private idempotentResponses = new Map<string, MockResponse>();
+  private faults: MockFault[] = [];
+  private signingKey?: Promise<SigningKey>;
+  private sequence = 0;
+  private httpServer?: import('http').Server;
+
+  constructor(options: MockServerOptions = {}) {
+    this.options = options;
+    this.issuer = options.issuer || 'https://api.modelsignature.test';
+    this.reset();
+  }
+
+  /**
+   * Fetch-compatible handler; pass it as `new ModelSignatureClient({ fetch: server.fetch })`
+   */
+  readonly fetch: FetchFunction = async (input, init = {}) => {
+    const url = new URL(input, this.issuer);
+    const headers = normalizeHeaders(init.headers);
+    const body = typeof init.body === 'string' && init.body ? JSON.parse(init.body) : undefined;
+    const response = await this.handle(init.method || 'GET', url, headers, body, init.signal || undefined);
+    return toFetchResponse(response);
+  };
+
+  /**
+   * Register a public model (also used for the `model` of verified tokens)
+   */
+  addModel(model: PublicModel): void {
+    this.models.set(model.id, { ...model });
+  }
+
+  /**
+   * Register a public provider (also used for the `provider` of verified tokens)
+   */
+  addProvider(provider: PublicProvider): void {
+    this.providers.set(provider.id, { ...provider });
+  }
+
+  /**
+   * Get the deployments created through the API
+   */
+  getDeployments(): Deployment[] {
+    return Array.from(this.deployments.values());
+  }
+
+  /**
+   * Mint a token signed with the server's key; missing claims get test defaults
+   * @param claims Claims to include
+   * @param options Key ID, lifetime or a replacement signature
+   * @returns Compact JWS
+   */
+  async mintToken(claims: Partial<JWTClaims> & Record<string, unknown> = {}, options: MintTokenOptions = {}): Promise<string> {
+    const key = await this.getSigningKey();
+    const now = Math.floor(Date.now() / 1000);
+    const payload = {
+      model_id: 'test-model',
+      provider_id: 'test-provider',
+      user_fp: 'test-user',
+      iss: this.issuer,
+      iat: now,
+      exp: now + (options.ttl ?? this.options.tokenTtl ?? 900),
+      jti: `jti-${++this.sequence}`,
+      ...claims
+    };
+    const header = { alg: 'ES256', typ: 'JWT', kid: options.kid || key.kid };
+    const signingInput = `${encodeJson(header)}.${encodeJson(payload)}`;
+
+    if (options.signature !== undefined) {
+      return `${signingInput}.${options.signature}`;
+    }
+
+    const signature = await getSubtle().sign(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      key.privateKey,
+      new TextEncoder().encode(signingInput)
+    );
+    return `${signingInput}.${bytesToBase64Url(new Uint8Array(signature))}`;
+  }
+
+  /**
+   * Make later verifications of a token fail
+   * @param jti Token ID to revoke
+   */
+  revokeToken(jti: string): void {
+    this.revoked.add(jti);
+  }
+
+  /**
+   * Inject a fault into matching requests
+   * @param fault Status, latency and route of the fault
+   */
+  injectFault(fault: MockFault): void {
+    this.faults.push({ ...fault });
+  }
+
+  /**
+   * Remove all injected faults
+   */
+  clearFaults(): void {
+    this.faults = [];
+  }
+
+  /**
+   * Restore the seeded models and providers and drop all other state
+   */
+  reset(): void {
+    this.models.clear();
+    this.providers.clear();
+    this.deployments.clear();
+    this.allowedDeployments.clear();
+    this.revoked.clear();
+    this.idempotentResponses.clear();
+    this.faults = [];
+    this.requests.length = 0;
+    (this.options.models || []).forEach(model => this.addModel(model));
+    (this.options.providers || []).forEach(provider => this.addProvider(provider));
+  }
+
+  /**
+   * Serve the API over HTTP (Node.js only)
+   * @param port Port to listen on, defaults to a random free port
+   * @returns Base URL, e.g. `http://127.0.0.1:53211`
+   */
+  async listen(port: number = 0): Promise<string> {
+    const http = loadNodeBuiltin<typeof import('http')>('http');
+    if (!http) {
+      throw new Error('MockModelSignatureServer.listen requires a Node.js environment');
+    }
+
+    const server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', async () => {
+        const raw = Buffer.concat(chunks).toString('utf8');
+        const headers = normalizeHeaders(req.headers);
+        let response: MockResponse;
+        let body: any;
+        try {
+          body = raw ? JSON.parse(raw) : undefined;
+        } catch (error) {
+          response = { status: 400, body: { detail: 'Malformed JSON body' } };
+        }
+        try {
+          response ??= await this.handle(req.method || 'GET', new URL(req.url || '/', 'http://localhost'), headers, body);
+        } catch (error) {
+          response = { status: 500, body: { detail: error instanceof Error ? error.message : 'Internal error' } };
+        }
+        res.writeHead(response.status, { 'Content-Type': contentType(response), ...response.headers });
+        res.end(response.text ?? JSON.stringify(response.body));
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(port, '127.0.0.1', resolve));
+    this.httpServer = server;
+    const address = server.address() as import('net').AddressInfo;
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  /**
+   * Stop the HTTP server started by `listen()`
+   */
+  async close(): Promise<void> {
+    const server = this.httpServer;
+    this.httpServer = undefined;
+    if (server) {
+      await new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+    }
+  }
+
+  private async handle(
+    method: string,
+    url: URL,
+    headers: Record<string, string>,
+    body: any,
+    signal?: AbortSignal
+  ): Promise<MockResponse> {
+    method = method.toUpperCase();
+    const path = url.pathname;
+    this.requests.push({ method, path, query: Object.fromEntries(url.searchParams), headers, body });
+
+    const fault = this.takeFault(method, path);
+    if (fault?.latency) {
+      await sleep(fault.latency, signal);
+    }
+    if (fault?.status) {
+      return {
+        status: fault.status,
+        body: fault.body ?? { detail: 'Injected fault' },
+        headers: fault.retryAfter !== undefined ? { 'Retry-After': String(fault.retryAfter) } : undefined
+      };
+    }
+
+    // Replay the stored response for a retried mutation
+    const idempotencyKey = headers['idempotency-key'];
+    const replayKey = idempotencyKey ? `${method} ${path} ${idempotencyKey}` : undefined;
+    if (replayKey && this.idempotentResponses.has(replayKey)) {
+      return this.idempotentResponses.get(replayKey)!;
+    }
+
+    let response: MockResponse;
+    try {
+      response = { status: 200, body: await this.route(method, path, url.searchParams, headers, body) };
+    } catch (error) {
+      if (!(error instanceof HttpError)) {
+        throw error;
+      }
+      response = error.plainText
+        ? { status: error.status, body: undefined, text: error.message }
+        : { status: error.status, body: { detail: error.message } };
+    }
+
+    if (replayKey && response.status < 500) {
+      this.idempotentResponses.set(replayKey, response);
+    }
+    return response;
+  }
+
+  private async route(
+    method: string,
+    path: string,
+    query: URLSearchParams,
+    headers: Record<string, string>,
+    body: any
+  ): Promise<unknown> {
+    const segments = path.split('/').filter(Boolean).map(decodeURIComponent);
+    const is = (verb: string, pattern: string) => method === verb && matches(segments, pattern);
+
+    if (is('GET', '.well-known/jwks.json')) {
+      return this.getJWKS();
+    }
+    if (is('POST', 'api/v1/jwt/verify') && !this.options.legacyTokenRoutes) {
+      requireFields(body, ['token']);
+      return this.verify(body.token);
+    }
+    if (is('GET', 'api/v1/jwt/verify/:token')) {
+      return this.verify(segments[4]);
+    }
+    if (is('GET', 'api/v1/public/models')) {
+      return paginate(Array.from(this.models.values()), query);
+    }
+    if (is('GET', 'api/v1/public/models/:id')) {
+      return this.find(this.models, segments[4], 'Model');
+    }
+    if (is('GET', 'api/v1/public/providers')) {
+      return paginate(Array.from(this.providers.values()).map(p => this.withModelCount(p)), query);
+    }
+    if (is('GET', 'api/v1/public/providers/:id')) {
+      return this.withModelCount(this.find(this.providers, segments[4], 'Provider'));
+    }
+    if (is('GET', 'api/v1/search')) {
+      return paginate(this.search(query.get('q') || ''), query);
+    }
+
+    // Everything below requires the API key, when one is configured
+    this.authenticate(headers);
+
+    if (is('POST', 'api/v1/jwt/bind-response') && !this.options.legacyTokenRoutes) {
+      requireFields(body, ['token']);
+      return this.bindResponse(body.token, body);
+    }
+    if (is('POST', 'api/v1/jwt/:token/bind-response')) {
+      return this.bindResponse(segments[3], body);
+    }
+    if (is('GET', 'api/v1/deployments')) {
+      return this.getDeployments();
+    }
+    if (is('POST', 'api/v1/deployments')) {
+      return this.createDeployment(body);
+    }
+    if (is('PUT', 'api/v1/deployments/:id/status')) {
+      const deployment = this.find(this.deployments, segments[3], 'Deployment');
+      requireFields(body, ['status']);
+      Object.assign(deployment, { status: body.status, updated_at: new Date().toISOString() });
+      return deployment;
+    }
+    if (is('DELETE', 'api/v1/deployments/:id')) {
+      this.find(this.deployments, segments[3], 'Deployment');
+      this.deployments.delete(segments[3]);
+      return { success: true, message: 'Deployment deleted' };
+    }
+    if (is('POST', 'api/v1/models/:model/deployments/:deployment/allow')) {
+      this.find(this.models, segments[3], 'Model');
+      this.find(this.deployments, segments[5], 'Deployment');
+      const allowed = this.allowedDeployments.get(segments[3]) || new Set<string>();
+      allowed.add(segments[5]);
+      this.allowedDeployments.set(segments[3], allowed);
+      return { success: true, message: 'Deployment allowed' };
+    }
+    if (is('POST', 'api/v1/models')) {
+      return this.registerModel(body);
+    }
+    if (is('POST', 'api/v1/create-verification')) {
+      requireFields(body, ['model_id', 'prompt', 'response']);
+      const token = await this.mintToken({ model_id: body.model_id, response_hash: hashOutput(body.response) });
+      return { verification_url: `${this.issuer}/verify/${token}`, token, expires_in: this.options.tokenTtl ?? 900 };
+    }
+
+    throw new HttpError(404, `No route for ${method} ${path}`, true);
+  }
+
+  private async verify(token: string): Promise<VerificationResult> {
+    const parts = token.split('.');
+    let header: any;
+    let claims: JWTClaims;
+    try {
+      header = decodeJson(parts[0]);
+      claims = decodeJson(parts[1]);
+    } catch (error) {
+      return { valid: false, error: 'Malformed token' };
+    }
+
+    const key = await this.getSigningKey();
+    const signatureValid = parts.length === 3 && header.kid === key.kid && await verifyJWSSignature(
+      key.publicKey,
+      'ES256',
+      `${parts[0]}.${parts[1]}`,
+      base64UrlToBytes(parts[2])
+    ).catch(() => false);
+
+    if (!signatureValid) {
+      return { valid: false, error: 'Invalid token signature' };
+    }
+    if (this.revoked.has(claims.jti)) {
+      return { valid: false, error: 'Token revoked' };
+    }
+    if (claims.exp <= Math.floor(Date.now() / 1000)) {
+      return { valid: false, error: 'Token expired' };
+    }
+
+    const model = this.models.get(claims.model_id);
+    const provider = this.providers.get(claims.provider_id);
+    return {
+      valid: true,
+      claims,
+      model: model || { id: claims.model_id, name: claims.model_id, version: '1.0.0' },
+      provider: provider || { id: claims.provider_id, name: claims.provider_id },
+      bundle_check: model?.bundle_status ? { status: model.bundle_status, last_checked: model.bundle_last_checked } : undefined
+    };
+  }
+
+  private async bindResponse(token: string, body: any): Promise<unknown> {
+    requireFields(body, ['response_text']);
+    const verification = await this.verify(token);
+    if (!verification.valid) {
+      throw new HttpError(400, verification.error || 'Invalid token');
+    }
+
+    const { iat: _iat, exp: _exp, jti: _jti, ...claims } = verification.claims!;
+    const canonicalization: CanonicalizationProfile = body.canonicalization || 'raw';
+    if (!CANONICALIZATION_PROFILES.includes(canonicalization)) {
+      throw new HttpError(422, `Unknown canonicalization profile: ${canonicalization}`);
+    }
+    const responseHash = hashOutput(body.response_text, canonicalization);
+    const boundToken = await this.mintToken({
+      ...claims,
+      response_hash: responseHash,
+      response_canonicalization: canonicalization,
+      bound_to_response: true
+    });
+    return {
+      response_hash: responseHash,
+      bound_token: boundToken,
+      verification_url: `${this.issuer}/verify/${boundToken}`,
+      canonicalization
+    };
+  }
+
+  private createDeployment(body: any): Deployment {
+    requireFields(body, ['name', 'endpoint_url']);
+    const now = new Date().toISOString();
+    const deployment: Deployment = {
+      deployment_type: 'api',
+      metadata: {},
+      ...body,
+      id: `dep_${++this.sequence}`,
+      status: 'active',
+      created_at: now,
+      updated_at: now
+    };
+    this.deployments.set(deployment.id, deployment);
+    return deployment;
+  }
+
+  private registerModel(body: any): unknown {
+    requireFields(body, ['model_id', 'name']);
+    if (this.models.has(body.model_id)) {
+      throw new HttpError(409, `Model '${body.model_id}' already exists`);
+    }
+
+    this.addModel({
+      id: body.model_id,
+      name: body.name,
+      version: body.version || '1.0.0',
+      description: body.description,
+      license: body.license,
+      homepage_url: body.homepage_url,
+      model_digest: body.digest,
+      sigstore_bundle_url: body.bundle_url,
+      capabilities: body.capabilities,
+      trust_level: body.trust_level
+    });
+    return { model_id: body.model_id, name: body.name, version: body.version || '1.0.0', message: 'Model registered' };
+  }
+
+  private search(query: string): SearchResult[] {
+    const needle = query.toLowerCase();
+    const hit = (...fields: Array<string | undefined>) => fields.some(field => field?.toLowerCase().includes(needle));
+
+    const models: SearchResult[] = Array.from(this.models.values())
+      .filter(model => hit(model.id, model.name, model.description))
+      .map(model => ({
+        type: 'model',
+        id: model.id,
+        name: model.name,
+        description: model.description,
+        provider_id: model.provider_id,
+        verified: model.bundle_status === 'verified',
+        trust_level: model.trust_level
+      }));
+    const providers: SearchResult[] = Array.from(this.providers.values())
+      .filter(provider => hit(provider.id, provider.name, provider.description))
+      .map(provider => ({
+        type: 'provider',
+        id: provider.id,
+        name: provider.name,
+        description: provider.description,
+        verified: provider.domain_verified
+      }));
+    return [...models, ...providers];
+  }
+
+  private withModelCount(provider: PublicProvider): PublicProvider {
+    const modelCount = Array.from(this.models.values()).filter(model => model.provider_id === provider.id).length;
+    return { ...provider, model_count: provider.model_count ?? modelCount };
+  }
+
+  private find<T>(collection: Map<string, T>, id: string, kind: string): T {
+    const item = collection.get(id);
+    if (!item) {
+      throw new HttpError(404, `${kind} '${id}' not found`);
+    }
+    return item;
+  }
+
+  private authenticate(headers: Record<string, string>): void {
+    if (this.options.apiKey && headers['authorization'] !== `Bearer ${this.options.apiKey}`) {
+      throw new HttpError(401, 'Invalid or missing API key');
+    }
+  }
+
+  private takeFault(method: string, path: string): MockFault | undefined {
+    const index = this.faults.findIndex(fault =>
+      (!fault.method || fault.method.toUpperCase() === method) &&
+      (!fault.route || (typeof fault.route === 'string' ? path.startsWith(fault.route) : fault.route.test(path)))
+    );
+    if (index === -1) {
+      return undefined;
+    }
+
+    const fault = this.faults[index];
+    if (fault.times !== undefined && --fault.times <= 0) {
+      this.faults.splice(index, 1);
+    }
+    return fault;
+  }
+
+  private async getJWKS(): Promise<JSONWebKeySet> {
+    const key = await this.getSigningKey();
+    return { keys: [{ ...key.jwk, kid: key.kid, alg: 'ES256', use: 'sig' } as any] };
+  }
+
+  private getSigningKey(): Promise<SigningKey> {
+    if (!this.signingKey) {
+      this.signingKey = (async () => {
+        const subtle = getSubtle();
+        const pair = await subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+        const jwk = await subtle.exportKey('jwk', pair.publicKey);
+        const { kty, crv, x, y } = jwk;
+        return { kid: 'mock-key-1', privateKey: pair.privateKey, publicKey: pair.publicKey, jwk: { kty, crv, x, y } };
+      })();
+    }
+    return this.signingKey;
+  }
+}
+
+/**
+ * Create an in-memory ModelSignature API for tests
+ * @param options Seed data, issuer and API key
+ * @returns Mock server
+ */
+export function createMockServer(options: MockServerOptions = {}): MockModelSignatureServer {
+  return new MockModelSignatureServer(options);
+}
+
+function getSubtle(): SubtleCrypto {
+  const subtle = getSubtleCrypto();
+  if (!subtle) {
+    throw new Error('MockModelSignatureServer requires WebCrypto');
+  }
+  return subtle;
+}
+
+function encodeJson(value: unknown): string {
+  return bytesToBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+function decodeJson(segment: string): any {
+  return JSON.parse(new TextDecoder().decode(base64UrlToBytes(segment)));
+}
+
+function matches(segments: string[], pattern: string): boolean {
+  const parts = pattern.split('/');
+  return parts.length === segments.length && parts.every((part, i) => part.startsWith(':') || part === segments[i]);
+}
+
+function requireFields(body: any, fields: string[]): void {
+  const missing = fields.filter(field => body?.[field] === undefined || body?.[field] === '');
+  if (missing.length > 0) {
+    throw new HttpError(422, `Missing required fields: ${missing.join(', ')}`);
+  }
+}
+
+function paginate<T>(items: T[], query: URLSearchParams): PaginatedResponse<T> {
+  const limit = Number(query.get('limit') || 100);
+  const offset = Number(query.get('offset') || 0);
+  return { items: items.slice(offset, offset + limit), total: items.length, limit, offset };
+}
+
+function normalizeHeaders(headers: any = {}): Record<string, string> {
+  const normalized: Record<string, string> = {};
+  const add = (key: string, value: unknown) => {
+    if (value !== undefined) {
+      normalized[key.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+  };
+
+  if (Array.isArray(headers)) {
+    headers.forEach(([key, value]) => add(key, value));
+  } else if (typeof headers.forEach === 'function') {
+    (headers as Headers).forEach((value, key) => add(key, value));
+  } else {
+    Object.entries(headers).forEach(([key, value]) => add(key, value));
+  }
+  return normalized;
+}
+
+function contentType(response: MockResponse): string {
+  return response.text !== undefined ? 'text/plain' : 'application/json';
+}
+
+function toFetchResponse(response: MockResponse): Response {
+  const headers: Record<string, string> = { 'content-type': contentType(response), ...response.headers };
+  const text = response.text ?? JSON.stringify(response.body);
+
+  if (typeof Response !== 'undefined') {
+    return new Response(text, { status: response.status, headers });
+  }
+
+  // Node 16 has no global Response; provide the subset the client relies on
+  const lookup = Object.fromEntries(Object.entries(headers).map(([key, value]) => [key.toLowerCase(), value]));
+  return {
+    ok: response.status >= 200 && response.status < 300,
+    status: response.status,
+    statusText: String(response.status),
+    headers: { get: (name: string) => lookup[name.toLowerCase()] ?? null },
+    json: async () => JSON.parse(text),
+    text: async () => text
+  } as unknown as Response;
+}
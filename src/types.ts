@@ -8,6 +8,38 @@ export interface ModelSignatureConfig {
   apiBaseUrl?: string;
   timeout?: number;
   retries?: number;
+  jwksUrl?: string; // absolute URL or path relative to apiBaseUrl
+  issuer?: string; // expected `iss` claim, defaults to apiBaseUrl
+  jwksCacheTtl?: number; // milliseconds
+  fetch?: FetchFunction; // defaults to the global fetch
+  interceptors?: RequestInterceptor[];
+  retryPolicy?: RetryPolicy;
+  idempotencyKeys?: boolean; // send Idempotency-Key on POST/PATCH, defaults to true
+  circuitBreaker?: CircuitBreakerOptions | false;
+  tokenTransport?: TokenTransport; // how tokens reach verify/bind endpoints, defaults to 'auto'
+  clock?: Clock; // time source for offline checks, shared with policy enforcers
+  clockTolerance?: number; // seconds of clock skew allowed on exp, nbf and iat, defaults to 5
+}
+
+/**
+ * How verification and binding calls send the token:
+ * 'body' in a JSON request body, 'path' in the URL path (legacy servers),
+ * 'auto' in the body, falling back to the path when the server lacks the body endpoints
+ */
+export type TokenTransport = 'auto' | 'body' | 'path';
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number; // consecutive failures before opening, defaults to 5
+  resetTimeout?: number; // milliseconds to stay open before a trial request, defaults to 30000
+  halfOpenMaxCalls?: number; // concurrent trial requests while half-open, defaults to 1
+}
+
+export interface RetryPolicy {
+  isRetryableStatus?: (status: number) => boolean; // defaults to 408, 429 and 5xx
+  baseDelay?: number; // milliseconds
+  maxDelay?: number; // milliseconds
+  maxElapsedTime?: number; // milliseconds across all attempts and waits
+  respectRetryAfter?: boolean;
 }
 
 export interface ModelSignatureConfigRequired {
@@ -15,6 +47,47 @@ export interface ModelSignatureConfigRequired {
   apiBaseUrl: string;
   timeout: number;
   retries: number;
+  jwksUrl: string;
+  issuer?: string;
+  jwksCacheTtl: number;
+  retryPolicy: Required<RetryPolicy>;
+  idempotencyKeys: boolean;
+  tokenTransport: TokenTransport;
+  clock: Clock;
+  clockTolerance: number;
+}
+
+/**
+ * Source of the current time; inject one for tests or to use a trusted time service
+ */
+export interface Clock {
+  now(): number; // epoch milliseconds
+}
+
+export interface TimeOptions {
+  clock?: Clock; // defaults to the system clock
+  clockTolerance?: number; // seconds of allowed skew, defaults to 5
+}
+
+export type FetchFunction = (input: string, init?: RequestInit) => Promise<Response>;
+
+export interface RequestContext {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: BodyInit | null;
+  attempt: number; // 0-based retry attempt
+}
+
+export interface InterceptorShortCircuit {
+  respondWith: any; // returned to the caller as the parsed response body
+}
+
+export interface RequestInterceptor {
+  onRequest?(
+    request: RequestContext
+  ): RequestContext | InterceptorShortCircuit | void | Promise<RequestContext | InterceptorShortCircuit | void>;
+  onResponse?(response: Response, request: RequestContext): Response | void | Promise<Response | void>;
 }
 
 export interface JWTClaims {
@@ -23,8 +96,11 @@ export interface JWTClaims {
   user_fp: string;
   deployment_id?: string;
   model_digest?: string;
+  nbf?: number; // not before, epoch seconds
   response_hash?: string;
+  response_canonicalization?: CanonicalizationProfile; // profile applied before hashing, 'raw' when absent
   bound_to_response?: boolean;
+  iss?: string;
   iat: number;
   exp: number;
   jti: string;
@@ -39,6 +115,8 @@ export interface ModelInfo {
   sigstore_bundle_url?: string;
   bundle_status?: 'unknown' | 'verified' | 'invalid' | 'error';
   bundle_last_checked?: string;
+  capabilities?: string[]; // registry metadata, when the API includes it
+  trust_level?: string;
 }
 
 export interface ProviderInfo {
@@ -64,43 +142,368 @@ export interface VerificationResult {
   error?: string;
 }
 
+export interface JWTHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+}
+
+export interface DecodedToken {
+  header: JWTHeader;
+  claims: JWTClaims; // not validated; claims a token lacks are undefined
+  signature: Uint8Array;
+  signingInput: string; // `header.payload` exactly as encoded, the input to signature verification
+}
+
+export interface JSONWebKey {
+  kty: string;
+  kid?: string;
+  alg?: string;
+  use?: string;
+  n?: string;
+  e?: string;
+  crv?: string;
+  x?: string;
+  y?: string;
+}
+
+export interface JSONWebKeySet {
+  keys: JSONWebKey[];
+}
+
+/**
+ * Provider and model lists take patterns: '/regex/flags', globs with `*` and `?`, or exact ids.
+ * Model patterns match the model's id or name, or `id@version` / `name@version`.
+ */
 export interface PolicyConfig {
   requireDeploymentId?: boolean;
   requireModelDigest?: boolean;
   requireBundleVerification?: boolean;
   allowedProviders?: string[];
   allowedModels?: string[];
+  allowedModelsByProvider?: Record<string, string[]>; // provider pattern -> model patterns; unlisted providers are denied
+  deniedProviders?: string[]; // wins over every allow list
+  deniedModels?: string[]; // wins over every allow list
+  allowedModelTypes?: string[]; // patterns for ModelInfo.type
+  minVerificationLevel?: string; // minimum ProviderInfo.verification_level on the verificationLevels scale
+  verificationLevels?: string[]; // lowest first, defaults to DEFAULT_VERIFICATION_LEVELS
+  requireVerifiedDomain?: boolean;
+  requiredCapabilities?: string[]; // the model must have all of them
+  minTrustLevel?: string; // minimum model trust_level on the trustLevels scale
+  trustLevels?: string[]; // lowest first, defaults to DEFAULT_TRUST_LEVELS
+  maxBundleCheckAge?: number; // seconds since the bundle was last checked
   maxTokenAge?: number; // seconds
   failClosed?: boolean;
+  clockTolerance?: number; // seconds of clock skew allowed, defaults to the client's
+}
+
+/**
+ * Declarative policy file, validated against `policy.schema.json`
+ */
+export interface PolicyDocument {
+  $schema?: string;
+  version: 1;
+  name?: string;
+  description?: string;
+  policy: PolicyConfig;
+}
+
+/**
+ * 'error' violations deny the token; 'warning' violations are reported but allow it
+ */
+export type PolicyRuleSeverity = 'error' | 'warning';
+
+/**
+ * What a policy rule sees when it evaluates a verified token
+ */
+export interface PolicyRuleContext {
+  token: string;
+  claims: JWTClaims;
+  verification: VerificationResult;
+  config: PolicyConfig; // the enforcer's current policy configuration
+  time: Required<TimeOptions>; // clock and skew tolerance for time-based checks
+  signal?: AbortSignal; // aborts with the enforcePolicy call
+}
+
+export interface PolicyRuleViolation {
+  code: string; // stable violation type, used for metrics
+  message: string;
+  expected?: unknown; // what the policy requires, e.g. the maximum age or the allowed list
+  actual?: unknown; // what the token had; null when the value is missing
+}
+
+/**
+ * Machine-readable policy violation; `message` is the human-readable form used in `reasons`
+ */
+export interface PolicyViolation extends PolicyRuleViolation {
+  ruleId: string; // the rule that raised it, or 'verification' / 'api-availability' for the enforcer's own checks
+  severity: PolicyRuleSeverity;
 }
 
+/**
+ * A policy check; built-in and custom rules run side by side in registration order
+ */
+export interface PolicyRule {
+  id: string;
+  description: string;
+  severity: PolicyRuleSeverity;
+  evaluate(context: PolicyRuleContext): PolicyRuleOutcome | Promise<PolicyRuleOutcome>;
+}
+
+/**
+ * Nothing when the token passes, otherwise one or more violations
+ */
+export type PolicyRuleOutcome = PolicyRuleViolation | PolicyRuleViolation[] | null | undefined | void;
+
 export interface PolicyResult {
   allowed: boolean;
-  reasons: string[];
+  reasons: string[]; // messages of the 'error' violations
+  warnings?: string[]; // messages of the 'warning' violations, which do not deny the token
+  violations: PolicyViolation[]; // every violation, in evaluation order
   verification: VerificationResult;
+  degraded?: {
+    reason: 'API_UNAVAILABLE';
+    message: string;
+  }; // set when a fail-open policy allowed the token without reaching the API
+}
+
+export interface Deployment {
+  id: string;
+  name: string;
+  description?: string;
+  endpoint_url: string;
+  certificate_fingerprint?: string;
+  deployment_type?: string;
+  status: string;
+  metadata?: Record<string, any>;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface OperationResult {
+  success?: boolean;
+  message?: string;
+}
+
+export interface VerificationRecord {
+  verification_url: string;
+  token?: string;
+  expires_in?: number; // seconds
+  deployment_id?: string;
+}
+
+export interface RegisteredModel {
+  model_id: string;
+  name: string;
+  version?: string;
+  message?: string;
+}
+
+export interface PublicModel extends ModelInfo {
+  provider_id?: string;
+  description?: string;
+  license?: string;
+  homepage_url?: string;
+}
+
+export interface PublicProvider extends ProviderInfo {
+  description?: string;
+  model_count?: number;
+}
+
+export interface SearchResult {
+  type: 'model' | 'provider';
+  id: string;
+  name: string;
+  description?: string;
+  provider_id?: string;
+  verified?: boolean;
+  trust_level?: string;
+  score?: number;
+}
+
+export interface PaginatedResponse<T> {
+  items: T[];
+  total?: number;
+  limit?: number;
+  offset?: number;
+}
+
+export interface CallOptions {
+  signal?: AbortSignal; // cancels the call, including retries and backoff waits
+  deadline?: number | Date; // absolute deadline for the whole call (epoch milliseconds or Date)
+}
+
+export interface PaginationOptions extends CallOptions {
+  pageSize?: number; // items requested per page, defaults to 100
+  maxItems?: number; // stop after yielding this many items
+}
+
+export interface BatchOptions {
+  concurrency?: number; // maximum requests in flight, defaults to 5
+}
+
+export interface BatchVerificationResult {
+  token: string;
+  result?: VerificationResult;
+  error?: Error;
+}
+
+export interface BatchPolicyResult {
+  token: string;
+  result?: PolicyResult;
+  error?: Error;
 }
 
 export interface ResponseBinding {
   response_hash: string;
   bound_token: string;
   verification_url: string;
+  canonicalization?: CanonicalizationProfile;
+}
+
+/**
+ * How response text is normalized before hashing:
+ * 'raw' hashes the exact string, 'text-normalized' applies Unicode NFC, LF line endings and
+ * drops trailing whitespace, 'json-canonical' re-serializes JSON per RFC 8785 (JCS)
+ */
+export type CanonicalizationProfile = 'raw' | 'text-normalized' | 'json-canonical';
+
+/**
+ * Why a response binding check failed
+ */
+export type ResponseBindingFailure =
+  | 'MALFORMED_TOKEN' // bound token cannot be decoded
+  | 'NOT_BOUND' // `bound_to_response` is not set
+  | 'MISSING_RESPONSE_HASH' // no `response_hash` claim
+  | 'UNKNOWN_CANONICALIZATION' // `response_canonicalization` names an unsupported profile
+  | 'CANONICALIZATION_FAILED' // the text cannot be brought into the recorded profile
+  | 'HASH_MISMATCH'; // the text does not match `response_hash`
+
+export interface ResponseBindingVerification {
+  valid: boolean;
+  reason?: ResponseBindingFailure; // set when valid is false
+  message?: string;
+  claims?: JWTClaims;
+  canonicalization?: CanonicalizationProfile;
+  expectedHash?: string; // `response_hash` from the token
+  actualHash?: string; // hash recomputed from the text
+}
+
+export interface BindResponseOptions extends CallOptions {
+  canonicalization?: CanonicalizationProfile; // defaults to 'raw'
+}
+
+export interface ModelSignatureErrorDetails {
+  cause?: unknown; // underlying error (fetch failure, abort, ...)
+  requestId?: string; // server request ID from the X-Request-ID header or error body
+  attempts?: number; // attempts made before giving up
+  retryable?: boolean; // whether the failure is transient
+  body?: unknown; // parsed error response body
 }
 
 export class ModelSignatureError extends Error {
+  cause?: unknown;
+  requestId?: string;
+  attempts?: number;
+  retryable: boolean;
+  body?: unknown;
+
   constructor(
     message: string,
     public code?: string,
-    public statusCode?: number
+    public statusCode?: number,
+    details: ModelSignatureErrorDetails = {}
   ) {
     super(message);
     this.name = 'ModelSignatureError';
+    this.cause = details.cause;
+    this.requestId = details.requestId;
+    this.attempts = details.attempts;
+    this.retryable = details.retryable ?? false;
+    this.body = details.body;
+  }
+}
+
+/**
+ * The request never produced a response (DNS, connection refused, reset, ...)
+ */
+export class NetworkError extends ModelSignatureError {
+  constructor(message: string, details: ModelSignatureErrorDetails = {}) {
+    super(message, 'NETWORK_ERROR', undefined, { retryable: true, ...details });
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * An attempt exceeded the client's configured `timeout`
+ */
+export class TimeoutError extends ModelSignatureError {
+  constructor(message: string, details: ModelSignatureErrorDetails = {}) {
+    super(message, 'TIMEOUT', undefined, { retryable: true, ...details });
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * HTTP 429; `retryAfter` holds the server's requested delay in milliseconds
+ */
+export class RateLimitError extends ModelSignatureError {
+  constructor(
+    message: string,
+    public retryAfter?: number,
+    details: ModelSignatureErrorDetails = {}
+  ) {
+    super(message, 'RATE_LIMITED', 429, { retryable: true, ...details });
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * HTTP 401 or 403: missing, invalid or insufficient API key
+ */
+export class AuthenticationError extends ModelSignatureError {
+  constructor(message: string, statusCode: number = 401, details: ModelSignatureErrorDetails = {}) {
+    super(message, 'AUTHENTICATION_FAILED', statusCode, details);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * HTTP 404
+ */
+export class NotFoundError extends ModelSignatureError {
+  constructor(message: string, details: ModelSignatureErrorDetails = {}) {
+    super(message, 'NOT_FOUND', 404, details);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * HTTP 5xx
+ */
+export class ServerError extends ModelSignatureError {
+  constructor(message: string, statusCode: number = 500, details: ModelSignatureErrorDetails = {}) {
+    super(message, 'SERVER_ERROR', statusCode, { retryable: true, ...details });
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * Malformed token: wrong structure, bad base64url, invalid UTF-8 or JSON
+ */
+export class TokenDecodeError extends ModelSignatureError {
+  constructor(message: string, public segment?: 'header' | 'payload' | 'signature', details: ModelSignatureErrorDetails = {}) {
+    super(message, 'INVALID_FORMAT', undefined, details);
+    this.name = 'TokenDecodeError';
   }
 }
 
 export class PolicyViolationError extends ModelSignatureError {
   constructor(
     message: string,
-    public violations: string[]
+    public violations: string[],
+    public policyViolations: PolicyViolation[] = [] // structured form of `violations`
   ) {
     super(message, 'POLICY_VIOLATION');
     this.name = 'PolicyViolationError';
@@ -4,93 +4,407 @@
  */
 
 import CryptoJS from 'crypto-js';
+import {
+  ModelSignatureError,
+  TokenDecodeError,
+  CallOptions,
+  CanonicalizationProfile,
+  DecodedToken,
+  JWTHeader,
+  JWTClaims,
+  Clock,
+  TimeOptions
+} from './types';
+import { canonicalize } from './canonicalize';
 
 /**
  * Calculate SHA256 hash of response text for binding
  * @param responseText The model's raw response text
+ * @param canonicalization Profile applied before hashing, defaults to 'raw'
  * @returns SHA256 hash as hex string
  */
-export function hashOutput(responseText: string): string {
-  return CryptoJS.SHA256(responseText).toString(CryptoJS.enc.Hex);
+export function hashOutput(responseText: string, canonicalization: CanonicalizationProfile = 'raw'): string {
+  return CryptoJS.SHA256(canonicalize(responseText, canonicalization)).toString(CryptoJS.enc.Hex);
+}
+
+/**
+ * Decode a JWT without verifying it
+ * Note: This is for client-side inspection only, not security validation
+ * @param token JWT token string
+ * @returns Header, claims, raw signature and signing input
+ * @throws TokenDecodeError describing the first problem found
+ */
+export function decodeToken(token: string): DecodedToken {
+  if (typeof token !== 'string' || !token) {
+    throw new TokenDecodeError('Token must be a non-empty string');
+  }
+
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new TokenDecodeError(`Token must have 3 dot-separated segments, got ${parts.length}`);
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+  const header = decodeJSONSegment(encodedHeader, 'header');
+  if (typeof header.alg !== 'string') {
+    throw new TokenDecodeError('Token header has no "alg"', 'header');
+  }
+
+  return {
+    header: header as unknown as JWTHeader,
+    claims: decodeJSONSegment(encodedPayload, 'payload') as unknown as JWTClaims,
+    signature: decodeSegment(encodedSignature, 'signature'),
+    signingInput: `${encodedHeader}.${encodedPayload}`
+  };
 }
 
 /**
  * Parse JWT token without verification (for extracting claims)
  * Note: This is for client-side inspection only, not security validation
+ * @deprecated Use decodeToken, which reports why a token could not be decoded
  * @param token JWT token string
  * @returns Parsed payload or null if invalid format
  */
-export function parseJWT(token: string): any | null {
+export function parseJWT(token: string): JWTClaims | null {
   try {
-    const parts = token.split('.');
-    if (parts.length !== 3) {
-      return null;
-    }
-    
-    const payload = parts[1];
-    const decoded = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
-    return JSON.parse(decoded);
+    return decodeToken(token).claims;
   } catch (error) {
     return null;
   }
 }
 
+export const DEFAULT_CLOCK_TOLERANCE = 5; // seconds
+
+export const systemClock: Clock = { now: () => Date.now() };
+
+/**
+ * Current time of a clock in epoch seconds
+ * @param options Clock to read, defaults to the system clock
+ * @returns Whole seconds since the epoch
+ */
+export function getCurrentTime(options: TimeOptions = {}): number {
+  return Math.floor((options.clock || systemClock).now() / 1000);
+}
+
 /**
  * Check if JWT token is expired (client-side check only)
  * @param token JWT token string
+ * @param options Clock and allowed skew
  * @returns true if expired, false if valid, null if can't parse
  */
-export function isTokenExpired(token: string): boolean | null {
-  const payload = parseJWT(token);
-  if (!payload || !payload.exp) {
+export function isTokenExpired(token: string, options: TimeOptions = {}): boolean | null {
+  const exp = parseJWT(token)?.exp;
+  if (typeof exp !== 'number') {
     return null;
   }
-  
-  const now = Math.floor(Date.now() / 1000);
-  return payload.exp < now;
+
+  const tolerance = options.clockTolerance ?? DEFAULT_CLOCK_TOLERANCE;
+  return exp + tolerance < getCurrentTime(options);
+}
+
+/**
+ * Check if JWT token is not valid yet because of its `nbf` claim (client-side check only)
+ * @param token JWT token string
+ * @param options Clock and allowed skew
+ * @returns true if not yet valid, false if valid or without `nbf`, null if can't parse
+ */
+export function isTokenNotYetValid(token: string, options: TimeOptions = {}): boolean | null {
+  const claims = parseJWT(token);
+  if (!claims) {
+    return null;
+  }
+  if (typeof claims.nbf !== 'number') {
+    return false;
+  }
+
+  const tolerance = options.clockTolerance ?? DEFAULT_CLOCK_TOLERANCE;
+  return claims.nbf - tolerance > getCurrentTime(options);
 }
 
 /**
  * Extract token age in seconds
+ * An `iat` ahead of the clock by no more than the tolerance counts as age 0;
+ * further ahead, the negative age is returned so callers can reject the token.
  * @param token JWT token string
+ * @param options Clock and allowed skew
  * @returns Age in seconds or null if can't parse
  */
-export function getTokenAge(token: string): number | null {
-  const payload = parseJWT(token);
-  if (!payload || !payload.iat) {
+export function getTokenAge(token: string, options: TimeOptions = {}): number | null {
+  const iat = parseJWT(token)?.iat;
+  if (typeof iat !== 'number') {
     return null;
   }
-  
-  const now = Math.floor(Date.now() / 1000);
-  return now - payload.iat;
+
+  const age = getCurrentTime(options) - iat;
+  const tolerance = options.clockTolerance ?? DEFAULT_CLOCK_TOLERANCE;
+  return age < 0 && -age <= tolerance ? 0 : age;
 }
 
 /**
- * Validate token format (basic structure check)
+ * Validate token format: three base64url segments with a JSON header and payload
  * @param token JWT token string
  * @returns true if format is valid
  */
 export function isValidTokenFormat(token: string): boolean {
-  if (!token || typeof token !== 'string') {
+  try {
+    decodeToken(token);
+    return true;
+  } catch (error) {
     return false;
   }
-  
-  const parts = token.split('.');
-  if (parts.length !== 3) {
-    return false;
+}
+
+function decodeSegment(segment: string, name: 'header' | 'payload' | 'signature'): Uint8Array {
+  // Padding is tolerated; base64url never leaves a single character in the last group
+  const unpadded = segment.replace(/={1,2}$/, '');
+  if (!/^[A-Za-z0-9_-]+$/.test(unpadded) || unpadded.length % 4 === 1) {
+    throw new TokenDecodeError(`Token ${name} is not valid base64url`, name);
   }
-  
-  // Check that each part is base64url encoded
-  const base64UrlRegex = /^[A-Za-z0-9_-]+$/;
-  return parts.every(part => base64UrlRegex.test(part));
+  return base64UrlToBytes(unpadded);
+}
+
+function decodeJSONSegment(segment: string, name: 'header' | 'payload'): Record<string, unknown> {
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(decodeSegment(segment, name));
+  } catch (error) {
+    if (error instanceof TokenDecodeError) {
+      throw error;
+    }
+    throw new TokenDecodeError(`Token ${name} is not valid UTF-8`, name, { cause: error });
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new TokenDecodeError(`Token ${name} is not valid JSON`, name, { cause: error });
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new TokenDecodeError(`Token ${name} must be a JSON object`, name);
+  }
+  return value as Record<string, unknown>;
+}
+
+const JWT_PATTERN = /eyJ[A-Za-z0-9_-]*\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g;
+
+/**
+ * Shorten a token for logs and error messages
+ * Keeps the `jti` (when readable) and the first and last few characters.
+ * @param token JWT token string
+ * @returns Redacted form, e.g. `eyJhbG...x9Zk (jti=abc123)`
+ */
+export function redactToken(token: string): string {
+  if (typeof token !== 'string' || token.length < 24) {
+    return '[REDACTED]';
+  }
+
+  const claims = parseJWT(token);
+  const jti = claims && typeof claims.jti === 'string' ? ` (jti=${claims.jti})` : '';
+  return `${token.slice(0, 6)}...${token.slice(-4)}${jti}`;
+}
+
+/**
+ * Redact every JWT found in a piece of text
+ * @param text Message, URL or request body
+ * @returns Text with tokens replaced by their redacted form
+ */
+export function redactTokens(text: string): string {
+  return text.replace(JWT_PATTERN, token => redactToken(token));
+}
+
+/**
+ * Compare two strings in time independent of where they differ
+ * @param a First string
+ * @param b Second string
+ * @returns true if equal
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  let diff = a.length ^ b.length;
+  const length = Math.max(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+}
+
+/**
+ * Compile a policy pattern: `/regex/flags`, a glob where `*` matches any run of characters
+ * and `?` a single one, or otherwise an exact string
+ * @param pattern Pattern from a PolicyConfig list
+ * @returns Anchored regular expression (regexes match as written)
+ * @throws ModelSignatureError with code INVALID_CONFIG for an invalid regex
+ */
+export function compilePattern(pattern: string): RegExp {
+  const regex = /^\/([\s\S]+)\/([a-z]*)$/.exec(pattern);
+  if (regex) {
+    try {
+      // Stateful flags would make repeated tests alternate between results
+      return new RegExp(regex[1], regex[2].replace(/[gy]/g, ''));
+    } catch (error) {
+      throw new ModelSignatureError(`Invalid pattern ${pattern}: ${(error as Error).message}`, 'INVALID_CONFIG');
+    }
+  }
+
+  const source = Array.from(pattern, char => {
+    if (char === '*') return '.*';
+    if (char === '?') return '.';
+    return char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }).join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Find the first pattern that matches any of the values
+ * @param values Candidate values, e.g. a model's id and name
+ * @param patterns Policy patterns
+ * @returns The matching pattern, or undefined
+ */
+export function findMatchingPattern(values: string[], patterns: string[]): string | undefined {
+  return patterns.find(pattern => {
+    const regex = compilePattern(pattern);
+    return values.some(value => regex.test(value));
+  });
 }
 
 /**
  * Sleep utility for retries
  * @param ms Milliseconds to sleep
+ * @param signal Optional abort signal that interrupts the sleep
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (!signal) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new ModelSignatureError('Operation aborted', 'ABORTED'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new ModelSignatureError('Operation aborted', 'ABORTED'));
+    };
+    const timeoutId = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Resolve a call deadline to epoch milliseconds
+ * @param options Call options
+ * @returns Deadline in milliseconds, or undefined if none was given
+ */
+export function getDeadline(options: CallOptions = {}): number | undefined {
+  if (options.deadline === undefined) {
+    return undefined;
+  }
+  return options.deadline instanceof Date ? options.deadline.getTime() : options.deadline;
+}
+
+/**
+ * Get the error for a call that has been cancelled or has run past its deadline
+ * @param options Call options
+ * @returns ABORTED or DEADLINE_EXCEEDED error, or undefined if the call may continue
+ */
+export function getCancellationError(options: CallOptions = {}): ModelSignatureError | undefined {
+  if (options.signal?.aborted) {
+    return new ModelSignatureError('Operation aborted', 'ABORTED');
+  }
+
+  const deadline = getDeadline(options);
+  if (deadline !== undefined && Date.now() >= deadline) {
+    return new ModelSignatureError('Deadline exceeded', 'DEADLINE_EXCEEDED');
+  }
+  return undefined;
+}
+
+/**
+ * Throw if a call has been cancelled or has run past its deadline
+ * @param options Call options
+ */
+export function throwIfCancelled(options: CallOptions = {}): void {
+  const error = getCancellationError(options);
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Check whether an error was caused by caller cancellation or an expired deadline
+ * @param error Any error
+ * @returns true for ABORTED and DEADLINE_EXCEEDED errors
  */
-export function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+export function isCancellationError(error: unknown): boolean {
+  return error instanceof ModelSignatureError &&
+    (error.code === 'ABORTED' || error.code === 'DEADLINE_EXCEEDED');
+}
+
+/**
+ * Race a promise against a call's signal and deadline
+ * The underlying work is not interrupted; use `onCancel` to stop it.
+ * @param promise Work to wait for
+ * @param options Call options
+ * @param onCancel Invoked once if the call is cancelled before the promise settles
+ * @returns The promise's result
+ */
+export function withCancellation<T>(
+  promise: Promise<T>,
+  options: CallOptions = {},
+  onCancel?: () => void
+): Promise<T> {
+  const deadline = getDeadline(options);
+  if (!options.signal && deadline === undefined) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    const cleanup = () => {
+      if (timeoutId !== undefined) {
+        clearTimeout(timeoutId);
+      }
+      options.signal?.removeEventListener('abort', onAbort);
+    };
+    const cancel = (error: ModelSignatureError) => {
+      cleanup();
+      onCancel?.();
+      reject(error);
+    };
+    const onAbort = () => cancel(new ModelSignatureError('Operation aborted', 'ABORTED'));
+
+    try {
+      throwIfCancelled(options);
+    } catch (error) {
+      cancel(error as ModelSignatureError);
+      return;
+    }
+
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    if (deadline !== undefined) {
+      timeoutId = setTimeout(
+        () => cancel(new ModelSignatureError('Deadline exceeded', 'DEADLINE_EXCEEDED')),
+        deadline - Date.now()
+      );
+    }
+
+    promise.then(
+      value => {
+        cleanup();
+        resolve(value);
+      },
+      error => {
+        cleanup();
+        reject(error);
+      }
+    );
+  });
 }
 
 /**
@@ -103,4 +417,137 @@ export function getBackoffDelay(attempt: number, baseDelay: number = 1000, maxDe
   const delay = Math.min(baseDelay * Math.pow(2, attempt), maxDelay);
   // Add some jitter
   return delay + Math.random() * 1000;
-}
\ No newline at end of file
+}
+
+/**
+ * Default retryable status check: request timeout, rate limiting and server errors
+ * @param status HTTP status code
+ * @returns true if the request may be retried
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Parse a Retry-After header value
+ * @param value Header value, either delay-seconds or an HTTP date
+ * @param now Current time in milliseconds
+ * @returns Delay in milliseconds, or undefined if absent or unparseable
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - now);
+}
+
+/**
+ * Generate a random Idempotency-Key value (UUID v4)
+ * @returns Idempotency key
+ */
+export function generateIdempotencyKey(): string {
+  const globalCrypto = (globalThis as any).crypto || loadNodeBuiltin('crypto');
+  if (globalCrypto && typeof globalCrypto.randomUUID === 'function') {
+    return globalCrypto.randomUUID();
+  }
+
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+    const r = Math.random() * 16 | 0;
+    return (c === 'x' ? r : (r & 0x3 | 0x8)).toString(16);
+  });
+}
+
+/**
+ * Map over items with at most `concurrency` promises in flight
+ * Results keep the order of the input items.
+ * @param items Items to process
+ * @param concurrency Maximum number of concurrent calls
+ * @param fn Async mapper
+ * @returns Mapped results
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const workerCount = Math.max(1, Math.min(Math.floor(concurrency) || 1, items.length));
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
+
+/**
+ * Decode a base64url segment into raw bytes
+ * @param segment Base64url encoded string (padding optional)
+ * @returns Decoded bytes
+ */
+export function base64UrlToBytes(segment: string): Uint8Array {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Encode bytes as an unpadded base64url string
+ * @param bytes Bytes to encode
+ * @returns base64url string
+ */
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Load a Node.js built-in module when running under Node
+ * @param name Module name, e.g. 'crypto'
+ * @returns The module, or undefined outside Node
+ */
+export function loadNodeBuiltin<T = any>(name: string): T | undefined {
+  try {
+    return typeof require === 'function' ? require(name) : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Get the WebCrypto SubtleCrypto implementation for the current runtime
+ * Uses globalThis.crypto in browsers and Node 19+, node:crypto's webcrypto otherwise
+ * @returns SubtleCrypto or undefined if unavailable
+ */
+export function getSubtleCrypto(): SubtleCrypto | undefined {
+  const globalCrypto = (globalThis as any).crypto;
+  if (globalCrypto && globalCrypto.subtle) {
+    return globalCrypto.subtle;
+  }
+
+  const nodeCrypto = loadNodeBuiltin('crypto');
+  return nodeCrypto?.webcrypto?.subtle;
+}
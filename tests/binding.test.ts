@@ -0,0 +1,52 @@
+/**
+ * Tests for offline response binding verification
+ */
+
+import { verifyResponseBinding } from '../src/binding';
+import { ModelSignatureClient } from '../src/client';
+import { createMockServer } from '../src/testing';
+
+// Real SHA-256, so mismatching texts produce different hashes
+jest.unmock('crypto-js');
+
+describe('verifyResponseBinding', () => {
+  const tokenWith = (claims: object) =>
+    `eyJhbGciOiJFUzI1NiJ9.${Buffer.from(JSON.stringify(claims)).toString('base64url')}.c2ln`;
+
+  it('should accept the bound text and reject any other', async () => {
+    const server = createMockServer();
+    const client = new ModelSignatureClient({ apiBaseUrl: server.issuer, fetch: server.fetch });
+    const { bound_token } = await client.bindResponse(await server.mintToken(), 'The answer is 42.');
+
+    const result = verifyResponseBinding(bound_token, 'The answer is 42.');
+    expect(result).toMatchObject({ valid: true, canonicalization: 'raw' });
+    expect(result.actualHash).toBe(result.expectedHash);
+
+    expect(verifyResponseBinding(bound_token, 'The answer is 43.')).toMatchObject({
+      valid: false,
+      reason: 'HASH_MISMATCH',
+      message: 'Response text does not match the bound response hash'
+    });
+  });
+
+  it('should hash with the recorded canonicalization profile', async () => {
+    const server = createMockServer();
+    const client = new ModelSignatureClient({ apiBaseUrl: server.issuer, fetch: server.fetch });
+    const { bound_token } = await client.bindResponse(await server.mintToken(), '{"a": 1, "b": 2}', {
+      canonicalization: 'json-canonical'
+    });
+
+    expect(verifyResponseBinding(bound_token, '{ "b": 2, "a": 1 }').valid).toBe(true);
+    expect(verifyResponseBinding(bound_token, 'not json').reason).toBe('CANONICALIZATION_FAILED');
+  });
+
+  it('should explain why a token cannot prove a binding', () => {
+    expect(verifyResponseBinding('garbage', 'x').reason).toBe('MALFORMED_TOKEN');
+    expect(verifyResponseBinding(tokenWith({ response_hash: 'abc' }), 'x').reason).toBe('NOT_BOUND');
+    expect(verifyResponseBinding(tokenWith({ bound_to_response: true }), 'x').reason).toBe('MISSING_RESPONSE_HASH');
+    expect(verifyResponseBinding(
+      tokenWith({ bound_to_response: true, response_hash: 'abc', response_canonicalization: 'fuzzy' }),
+      'x'
+    ).reason).toBe('UNKNOWN_CANONICALIZATION');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Tests for the verification cache
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { VerificationCache, MemoryCacheStore, FileCacheStore, CacheEntry } from '../src/cache';
+import { VerificationResult } from '../src/types';
+
+jest.unmock('crypto-js');
+
+describe('Verification cache', () => {
+  const now = () => Math.floor(Date.now() / 1000);
+
+  const createToken = (claims: any = {}, signature = 'c2lnbmF0dXJl') => {
+    const encodedPayload = btoa(JSON.stringify({ jti: 'test-jti', exp: now() + 600, ...claims }))
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=/g, '');
+    return `eyJhbGciOiJIUzI1NiJ9.${encodedPayload}.${signature}`;
+  };
+
+  const createResult = (claims: any = {}): VerificationResult => ({
+    valid: true,
+    claims: {
+      model_id: 'test-model',
+      provider_id: 'test-provider',
+      user_fp: 'test-fp',
+      iat: now() - 60,
+      exp: now() + 600,
+      jti: 'test-jti',
+      ...claims
+    }
+  });
+
+  const createEntry = (expiresAt: number): CacheEntry => ({
+    result: createResult(),
+    tokenHash: 'hash',
+    expiresAt
+  });
+
+  describe('MemoryCacheStore', () => {
+    it('should evict the least recently used entry', () => {
+      const store = new MemoryCacheStore(2);
+      store.set('a', createEntry(1));
+      store.set('b', createEntry(2));
+      store.get('a');
+      store.set('c', createEntry(3));
+
+      expect(store.get('a')).toBeDefined();
+      expect(store.get('b')).toBeUndefined();
+      expect(store.get('c')).toBeDefined();
+      expect(store.size).toBe(2);
+    });
+  });
+
+  describe('FileCacheStore', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'modelsignature-cache-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should persist entries across instances', async () => {
+      const file = path.join(dir, 'cache.json');
+      const store = new FileCacheStore(file);
+      await store.set('a', createEntry(Date.now() + 60000));
+
+      const reloaded = new FileCacheStore(file);
+      expect((await reloaded.get('a'))?.tokenHash).toBe('hash');
+    });
+
+    it('should drop expired entries on load', async () => {
+      const file = path.join(dir, 'cache.json');
+      fs.writeFileSync(file, JSON.stringify({ old: createEntry(Date.now() - 1000) }));
+
+      const store = new FileCacheStore(file);
+      expect(await store.get('old')).toBeUndefined();
+    });
+  });
+
+  describe('VerificationCache', () => {
+    it('should return cached results and count hits and misses', async () => {
+      const cache = new VerificationCache();
+      const token = createToken();
+
+      expect(await cache.get(token)).toBeUndefined();
+      await cache.set(token, createResult());
+      expect(await cache.get(token)).toEqual(createResult());
+      expect(cache.getStats()).toEqual({ hits: 1, misses: 1 });
+    });
+
+    it('should not cache invalid results', async () => {
+      const cache = new VerificationCache();
+      const token = createToken();
+
+      await cache.set(token, { valid: false, error: 'Token expired' });
+      expect(await cache.get(token)).toBeUndefined();
+    });
+
+    it('should not serve a cached result to a different token with the same jti', async () => {
+      const cache = new VerificationCache();
+      await cache.set(createToken(), createResult());
+
+      expect(await cache.get(createToken({}, 'forged'))).toBeUndefined();
+    });
+
+    it('should never keep an entry past the token expiry', async () => {
+      const cache = new VerificationCache();
+      const token = createToken();
+      await cache.set(token, createResult({ exp: now() + 60 }));
+
+      const dateSpy = jest.spyOn(Date, 'now').mockReturnValue((now() + 61) * 1000);
+      try {
+        expect(await cache.get(token)).toBeUndefined();
+      } finally {
+        dateSpy.mockRestore();
+      }
+    });
+
+    it('should judge expiry by the given clock', async () => {
+      const cache = new VerificationCache();
+      const token = createToken();
+      const result = createResult({ exp: now() + 60 });
+      const late = { clock: { now: () => (now() + 61) * 1000 } };
+
+      await cache.set(token, result, late);
+      expect(await cache.get(token)).toBeUndefined();
+
+      await cache.set(token, result);
+      expect(await cache.get(token)).toBe(result);
+      expect(await cache.get(token, late)).toBeUndefined();
+    });
+
+    it('should skip tokens that are already expired', async () => {
+      const store = new MemoryCacheStore();
+      const cache = new VerificationCache(store);
+
+      await cache.set(createToken(), createResult({ exp: now() - 1 }));
+      expect(store.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Tests for response canonicalization profiles
+ */
+
+import { canonicalize, canonicalizeJSON } from '../src/canonicalize';
+import { ModelSignatureError } from '../src/types';
+
+describe('canonicalize', () => {
+  it('should leave raw text untouched', () => {
+    expect(canonicalize('Hello\r\n')).toBe('Hello\r\n');
+    expect(canonicalize('Hello\r\n', 'raw')).toBe('Hello\r\n');
+  });
+
+  describe('text-normalized', () => {
+    it('should unify line endings, Unicode form and trailing whitespace', () => {
+      const nfd = 'Cafe\u0301\r\nline two\rend \n\n';
+      expect(canonicalize(nfd, 'text-normalized')).toBe('Caf\u00e9\nline two\nend');
+      expect(canonicalize('\uFEFFHello', 'text-normalized')).toBe('Hello');
+    });
+
+    it('should be idempotent', () => {
+      const once = canonicalize('a\r\nb\u0301  \n', 'text-normalized');
+      expect(canonicalize(once, 'text-normalized')).toBe(once);
+    });
+  });
+
+  describe('json-canonical', () => {
+    it('should sort keys and drop insignificant whitespace', () => {
+      const text = '{ "b": [1, {"z": true, "a": null}], "a": "x" }';
+      expect(canonicalize(text, 'json-canonical')).toBe('{"a":"x","b":[1,{"a":null,"z":true}]}');
+    });
+
+    it('should serialize numbers and strings per RFC 8785', () => {
+      expect(canonicalizeJSON({ n: 1e21, f: 0.1, i: 100.0, z: -0 })).toBe('{"f":0.1,"i":100,"n":1e+21,"z":0}');
+      expect(canonicalizeJSON('€\n"')).toBe('"€\\n\\""');
+      expect(canonicalizeJSON({ 'é': 1, 'z': 2, '😀': 3 })).toBe('{"z":2,"é":1,"😀":3}');
+    });
+
+    it('should reject text that is not JSON', () => {
+      expect(() => canonicalize('not json', 'json-canonical')).toThrow(ModelSignatureError);
+    });
+  });
+
+  it('should reject unknown profiles', () => {
+    expect(() => canonicalize('x', 'fancy' as any)).toThrow("Unknown canonicalization profile 'fancy'");
+  });
+});
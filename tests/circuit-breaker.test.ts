@@ -0,0 +1,79 @@
+/**
+ * Tests for CircuitBreaker
+ */
+
+import { CircuitBreaker } from '../src/circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let dateSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    now = 1700000000000;
+    dateSpy = jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    dateSpy.mockRestore();
+  });
+
+  it('should open after consecutive failures', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('closed');
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it('should reset the failure count on success', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should allow a limited number of trial requests when half-open', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 });
+    breaker.recordFailure();
+
+    now += 1000;
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it('should close after a successful trial', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 });
+    breaker.recordFailure();
+    now += 1000;
+    breaker.allowRequest();
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should give back a released trial slot', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 });
+    breaker.recordFailure();
+    now += 1000;
+    expect(breaker.allowRequest()).toBe(true);
+    breaker.releaseTrial();
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.allowRequest()).toBe(true);
+  });
+
+  it('should re-open after a failed trial', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeout: 1000 });
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    now += 1000;
+    breaker.allowRequest();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+
+    now += 999;
+    expect(breaker.allowRequest()).toBe(false);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Tests for the command line interface
+ */
+
+import { runCli, CliIO, ExitCode } from '../src/cli';
+import { createMockServer, MockModelSignatureServer } from '../src/testing';
+
+describe('CLI', () => {
+  let server: MockModelSignatureServer;
+  let output: { stdout: string; stderr: string };
+
+  const createIO = (files: Record<string, string> = {}, stdin = ''): CliIO => ({
+    stdout: text => (output.stdout += text),
+    stderr: text => (output.stderr += text),
+    readStdin: async () => stdin,
+    readFile: async path => {
+      if (!(path in files)) {
+        throw new Error('ENOENT');
+      }
+      return files[path];
+    },
+    env: { MODELSIGNATURE_API_URL: server.issuer },
+    fetch: server.fetch
+  });
+
+  beforeEach(() => {
+    server = createMockServer({ providers: [{ id: 'acme', name: 'Acme AI' }] });
+    output = { stdout: '', stderr: '' };
+  });
+
+  describe('inspect', () => {
+    it('should print header, claims and expiry as JSON', async () => {
+      const token = await server.mintToken({ model_id: 'gpt-test' });
+
+      expect(await runCli(['inspect', token, '--json'], createIO())).toBe(ExitCode.ALLOW);
+      const report = JSON.parse(output.stdout);
+      expect(report.header).toMatchObject({ alg: 'ES256', kid: 'mock-key-1' });
+      expect(report.claims.model_id).toBe('gpt-test');
+      expect(report.expired).toBe(false);
+      expect(report.expiresIn).toBeGreaterThan(0);
+    });
+
+    it('should read the token from stdin and deny expired tokens', async () => {
+      const token = await server.mintToken({}, { ttl: -60 });
+
+      expect(await runCli(['inspect'], createIO({}, `${token}\n`))).toBe(ExitCode.DENY);
+      expect(output.stdout).toMatch(/Expires: +expired \d+s ago/);
+    });
+
+    it('should reject malformed tokens as a usage error', async () => {
+      expect(await runCli(['inspect', 'not-a-token'], createIO())).toBe(ExitCode.USAGE);
+      expect(output.stderr).toContain('Malformed token');
+    });
+  });
+
+  describe('verify', () => {
+    it('should map validity to the exit code', async () => {
+      const valid = await server.mintToken({ provider_id: 'acme' });
+      const forged = await server.mintToken({}, { signature: 'Zm9yZ2Vk' });
+
+      expect(await runCli(['verify', valid], createIO())).toBe(ExitCode.ALLOW);
+      expect(output.stdout).toContain('Provider:   Acme AI (acme)');
+      expect(await runCli(['verify', forged, '--json'], createIO())).toBe(ExitCode.DENY);
+    });
+
+    it('should reject malformed tokens as a usage error', async () => {
+      expect(await runCli(['verify', 'not-a-token'], createIO())).toBe(ExitCode.USAGE);
+      expect(output.stderr).toContain('Malformed token');
+    });
+
+    it('should report API failures separately from denials', async () => {
+      server.injectFault({ status: 401 });
+      const token = await server.mintToken();
+
+      expect(await runCli(['verify', token, '--json'], createIO())).toBe(ExitCode.ERROR);
+      expect(JSON.parse(output.stdout).code).toBe('AUTHENTICATION_FAILED');
+    });
+  });
+
+  describe('policy check', () => {
+    it('should allow or deny according to the policy file', async () => {
+      const token = await server.mintToken({ provider_id: 'acme' });
+      const files = {
+        'allow.json': JSON.stringify({ allowedProviders: ['acme'] }),
+        'deny.json': JSON.stringify({ allowedProviders: ['other'] })
+      };
+
+      expect(await runCli(['policy', 'check', token, '--config', 'allow.json'], createIO(files))).toBe(ExitCode.ALLOW);
+      output.stdout = '';
+      expect(await runCli(['policy', 'check', token, '--config=deny.json', '--json'], createIO(files))).toBe(ExitCode.DENY);
+      expect(output.stdout).toContain("Provider 'acme' is not in allowed list");
+      expect(JSON.parse(output.stdout).violations).toEqual([expect.objectContaining({
+        code: 'PROVIDER_NOT_ALLOWED',
+        ruleId: 'allowed-providers',
+        expected: ['other'],
+        actual: 'acme'
+      })]);
+    });
+
+    it('should accept versioned policy documents in JSON or YAML', async () => {
+      const token = await server.mintToken({ provider_id: 'acme' });
+      const files = {
+        'policy.yaml': 'version: 1\npolicy:\n  allowedProviders: [acme]\n',
+        'typo.json': JSON.stringify({ version: 1, policy: { allowedProvider: ['acme'] } })
+      };
+
+      expect(await runCli(['policy', 'check', token, '--config', 'policy.yaml'], createIO(files))).toBe(ExitCode.ALLOW);
+      expect(await runCli(['policy', 'check', token, '--config', 'typo.json'], createIO(files))).toBe(ExitCode.USAGE);
+      expect(output.stderr).toContain("did you mean 'allowedProviders'?");
+    });
+
+    it('should reject bare policy configs that are misspelled or not objects', async () => {
+      const token = await server.mintToken({ provider_id: 'acme' });
+      const files = {
+        'typo.json': JSON.stringify({ maxTokenAg: 1, allowedProviderz: ['x'] }),
+        'null.json': 'null',
+        'array.json': '[1, 2]'
+      };
+
+      expect(await runCli(['policy', 'check', token, '--config', 'typo.json'], createIO(files))).toBe(ExitCode.USAGE);
+      expect(output.stderr).toContain("policy.maxTokenAg is not a known property (did you mean 'maxTokenAge'?)");
+      expect(output.stderr).toContain("did you mean 'allowedProviders'?");
+      expect(await runCli(['policy', 'check', token, '--config', 'null.json'], createIO(files))).toBe(ExitCode.USAGE);
+      expect(output.stderr).toContain('policy must be an object');
+      expect(await runCli(['policy', 'check', token, '--config', 'array.json'], createIO(files))).toBe(ExitCode.USAGE);
+    });
+
+    it('should require a config file', async () => {
+      expect(await runCli(['policy', 'check', 'a.b.c'], createIO())).toBe(ExitCode.USAGE);
+      expect(await runCli(['policy', 'check', 'a.b.c', '--config', 'missing.json'], createIO())).toBe(ExitCode.USAGE);
+    });
+  });
+
+  describe('hash', () => {
+    it('should hash a file or stdin', async () => {
+      expect(await runCli(['hash', 'response.txt', '--json'], createIO({ 'response.txt': 'Hello' }))).toBe(ExitCode.ALLOW);
+      expect(JSON.parse(output.stdout)).toEqual({ algorithm: 'sha256', hash: 'mocked-hash', file: 'response.txt' });
+
+      output.stdout = '';
+      expect(await runCli(['hash'], createIO({}, 'Hello'))).toBe(ExitCode.ALLOW);
+      expect(output.stdout).toBe('mocked-hash\n');
+    });
+  });
+
+  it('should reject unknown options', async () => {
+    expect(await runCli(['verify', 'a.b.c', '--ofline'], createIO())).toBe(ExitCode.USAGE);
+    expect(output.stderr).toContain('Unknown option: --ofline');
+    expect(await runCli(['hash', '-x'], createIO())).toBe(ExitCode.USAGE);
+  });
+
+  it('should print usage for unknown commands', async () => {
+    expect(await runCli(['frobnicate'], createIO())).toBe(ExitCode.USAGE);
+    expect(output.stderr).toContain('Usage: modelsignature');
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for configuration loading
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadConfig, DEFAULT_API_BASE_URL } from '../src/config';
+import { ModelSignatureClient } from '../src/client';
+import { PolicyEnforcer } from '../src/policy';
+
+describe('Configuration loading', () => {
+  let dir: string;
+  let configFile: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'modelsignature-config-'));
+    configFile = path.join(dir, 'config.json');
+    fs.writeFileSync(configFile, JSON.stringify({
+      defaultProfile: 'staging',
+      profiles: {
+        staging: {
+          apiKey: 'staging-key',
+          apiBaseUrl: 'https://staging.modelsignature.test',
+          timeout: 5000,
+          retries: 1,
+          policy: { allowedProviders: ['acme'], maxTokenAge: 600 }
+        },
+        local: { apiBaseUrl: 'http://localhost:8080' }
+      }
+    }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should fall back to defaults without a config file or environment', () => {
+    const home = process.env.HOME;
+    process.env.HOME = dir; // no ~/.modelsignature/config.json
+    try {
+      const config = loadConfig({ env: {} });
+      expect(config.client.apiBaseUrl).toBe(DEFAULT_API_BASE_URL);
+      expect(config.policy).toEqual({});
+      expect(config.profile).toBeUndefined();
+    } finally {
+      process.env.HOME = home;
+    }
+  });
+
+  it('should apply explicit options, then environment, then the profile', () => {
+    const config = loadConfig({
+      configFile,
+      env: { MODELSIGNATURE_API_KEY: 'env-key', MODELSIGNATURE_TIMEOUT: '2000' },
+      client: { timeout: 1000 },
+      policy: { failClosed: false }
+    });
+
+    expect(config.profile).toBe('staging');
+    expect(config.client).toMatchObject({
+      apiKey: 'env-key',
+      apiBaseUrl: 'https://staging.modelsignature.test',
+      timeout: 1000,
+      retries: 1
+    });
+    expect(config.policy).toEqual({ allowedProviders: ['acme'], maxTokenAge: 600, failClosed: false });
+  });
+
+  it('should select profiles by option or environment variable', () => {
+    expect(loadConfig({ configFile, env: { MODELSIGNATURE_PROFILE: 'local' } }).client.apiBaseUrl).toBe('http://localhost:8080');
+    expect(() => loadConfig({ configFile, env: {}, profile: 'missing' })).toThrow("Unknown configuration profile 'missing'");
+  });
+
+  it('should reject invalid values', () => {
+    expect(() => loadConfig({ env: {}, client: { timeout: -1 } })).toThrow('timeout must be a positive number');
+    expect(() => loadConfig({ env: { MODELSIGNATURE_API_URL: 'http://api.example.com' } })).toThrow('must use https');
+    expect(() => loadConfig({ env: { MODELSIGNATURE_RETRIES: 'many' } })).toThrow('MODELSIGNATURE_RETRIES must be a number');
+    expect(() => loadConfig({ env: {}, policy: { allowedModels: 'gpt' as any } })).toThrow('allowedModels must be an array');
+    expect(() => loadConfig({ env: {}, policy: { deniedModels: ['/gpt-(/'] } })).toThrow('policy.deniedModels contains an invalid pattern: /gpt-(/');
+    expect(() => loadConfig({ env: {}, policy: { minTrustLevel: 'gold' } }))
+      .toThrow('policy.minTrustLevel must be one of untrusted, low, medium, high');
+    expect(() => loadConfig({ env: {}, policy: { minTrustLevel: 'gold', trustLevels: ['silver', 'gold'] } })).not.toThrow();
+    expect(() => loadConfig({ env: {}, policy: { allowedModelsByProvider: { acme: 'gpt-*' as any } } }))
+      .toThrow("policy.allowedModelsByProvider['acme'] must be an array of strings");
+  });
+
+  it('should fail when an explicitly named config file is missing', () => {
+    expect(() => loadConfig({ env: {}, configFile: path.join(dir, 'nope.json') })).toThrow('Unable to read config file');
+  });
+
+  it('should build clients and enforcers from the resolved configuration', () => {
+    const env = { MODELSIGNATURE_CONFIG_FILE: configFile };
+    const client = ModelSignatureClient.fromEnv({ env });
+    expect(client.getConfig()).toMatchObject({ apiKey: 'staging-key', timeout: 5000, retries: 1 });
+
+    const enforcer = PolicyEnforcer.fromEnv({ env });
+    expect(enforcer.getConfig()).toMatchObject({ allowedProviders: ['acme'], maxTokenAge: 600, failClosed: true });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Tests for streaming response hashing
+ */
+
+import { Readable } from 'stream';
+import { createResponseHasher } from '../src/hashing';
+import { ModelSignatureError } from '../src/types';
+import { loadNodeBuiltin } from '../src/utils';
+
+// Node 16 only exposes web streams through stream/web
+const WebReadableStream: typeof ReadableStream = typeof ReadableStream !== 'undefined'
+  ? ReadableStream
+  : loadNodeBuiltin('stream/web').ReadableStream;
+
+// SHA-256 of 'Hello, wörld!' (crypto-js, and so hashOutput, is mocked in tests)
+const EXPECTED = 'e2f9d7e54e593984828e701f5736e6d29d367912a1d1ff6c9039e8c8025fe8fb';
+
+describe('createResponseHasher', () => {
+  it('should hash chunks like the full text', async () => {
+    const bytes = new TextEncoder().encode('wörld!');
+    const hasher = createResponseHasher()
+      .update('Hello, ')
+      .update(bytes.subarray(0, 2)) // splits the multi-byte 'ö'
+      .update(bytes.subarray(2));
+
+    expect(hasher.bytesHashed).toBe(14);
+    expect(await hasher.digest()).toBe(EXPECTED);
+  });
+
+  it('should keep a surrogate pair split across string chunks intact', async () => {
+    const text = 'hi 😀 there';
+    const split = text.indexOf('😀') + 1; // between the high and low surrogate
+    const hasher = createResponseHasher().update(text.slice(0, split)).update(text.slice(split));
+
+    expect(await hasher.digest()).toBe(await createResponseHasher().update(text).digest());
+    expect(hasher.bytesHashed).toBe(new TextEncoder().encode(text).length);
+  });
+
+  it('should refuse updates after digest', async () => {
+    const hasher = createResponseHasher();
+    await hasher.digest();
+    expect(() => hasher.update('late')).toThrow(ModelSignatureError);
+    await expect(hasher.digest()).rejects.toMatchObject({ code: 'HASHER_FINALIZED' });
+  });
+
+  it('should pass web stream chunks through unchanged', async () => {
+    const hasher = createResponseHasher();
+    const source = new WebReadableStream<string>({
+      start(controller) {
+        ['Hello, ', 'wö', 'rld!'].forEach(chunk => controller.enqueue(chunk));
+        controller.close();
+      }
+    });
+
+    const received: string[] = [];
+    const reader = source.pipeThrough(hasher.transformStream<string>()).getReader();
+    for (let next = await reader.read(); !next.done; next = await reader.read()) {
+      received.push(next.value);
+    }
+
+    expect(received).toEqual(['Hello, ', 'wö', 'rld!']);
+    expect(await hasher.digest()).toBe(EXPECTED);
+  });
+
+  it('should pass Node stream chunks through unchanged', async () => {
+    const hasher = createResponseHasher();
+    const chunks: Buffer[] = [];
+    for await (const chunk of Readable.from([Buffer.from('Hello, w'), Buffer.from('örld!')]).pipe(hasher.nodeTransform())) {
+      chunks.push(chunk);
+    }
+
+    expect(Buffer.concat(chunks).toString('utf8')).toBe('Hello, wörld!');
+    expect(await hasher.digest()).toBe(EXPECTED);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests for declarative policy files
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadPolicy, parsePolicyDocument, validatePolicyDocument, POLICY_SCHEMA } from '../src/policy-file';
+import { ModelSignatureClient } from '../src/client';
+import { PolicyEnforcer } from '../src/policy';
+
+describe('Policy files', () => {
+  const client = new ModelSignatureClient();
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'modelsignature-policy-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should load JSON and YAML documents into an enforcer', async () => {
+    const jsonFile = path.join(dir, 'policy.json');
+    const yamlFile = path.join(dir, 'policy.yaml');
+    fs.writeFileSync(jsonFile, JSON.stringify({ version: 1, policy: { allowedProviders: ['acme'], maxTokenAge: 300 } }));
+    fs.writeFileSync(yamlFile, [
+      'version: 1',
+      'name: production',
+      'policy:',
+      '  requireDeploymentId: true',
+      '  allowedModels: [gpt-test]',
+      '  failClosed: false'
+    ].join('\n'));
+
+    const fromJson = await loadPolicy(jsonFile, { client });
+    expect(fromJson).toBeInstanceOf(PolicyEnforcer);
+    expect(fromJson.getConfig()).toMatchObject({ allowedProviders: ['acme'], maxTokenAge: 300, failClosed: true });
+
+    const fromYaml = await loadPolicy(yamlFile, { client });
+    expect(fromYaml.getConfig()).toMatchObject({ requireDeploymentId: true, allowedModels: ['gpt-test'], failClosed: false });
+  });
+
+  it('should accept an already parsed document', async () => {
+    const enforcer = await loadPolicy({ version: 1, policy: { requireModelDigest: true } }, { client });
+    expect(enforcer.getConfig().requireModelDigest).toBe(true);
+  });
+
+  it('should report every schema problem, with suggestions for typos', () => {
+    expect(() => validatePolicyDocument({
+      version: 2,
+      policy: { maxTokenAg: 300, allowedProviders: ['acme', 7], failClosed: 'yes' }
+    })).toThrow(
+      'Invalid policy document: version must be 1; policy.maxTokenAg is not a known property (did you mean \'maxTokenAge\'?); ' +
+      'policy.allowedProviders[1] must be a string; policy.failClosed must be a boolean'
+    );
+    expect(() => validatePolicyDocument({ version: 1 })).toThrow('policy is required');
+    expect(() => validatePolicyDocument({ version: 1, policy: { maxTokenAge: 0 } })).toThrow('policy.maxTokenAge must be greater than 0');
+  });
+
+  it('should reject minimum levels that are not on the scale', async () => {
+    await expect(loadPolicy({ version: 1, policy: { minTrustLevel: 'hihg' } }, { client })).rejects.toMatchObject({
+      code: 'INVALID_POLICY',
+      message: 'Invalid policy document: policy.minTrustLevel must be one of untrusted, low, medium, high'
+    });
+  });
+
+  it('should check patterns and allow lists keyed by provider', () => {
+    expect(() => validatePolicyDocument({
+      version: 1,
+      policy: { deniedModels: ['/gpt-(/'], allowedModelsByProvider: { 'acme-*': ['gpt-*'], '/(/': ['*'], other: 'gpt' } }
+    })).toThrow(
+      'Invalid policy document: policy.deniedModels[0] is not a valid pattern: /gpt-(/; ' +
+      "policy.allowedModelsByProvider key '/(/' is not a valid pattern: /(/; policy.allowedModelsByProvider.other must be an array"
+    );
+  });
+
+  it('should name the file when it cannot be parsed or read', async () => {
+    expect(() => parsePolicyDocument('{ nope', 'json', 'team/policy.json')).toThrow(/Policy document team\/policy.json is not valid JSON/);
+    await expect(loadPolicy(path.join(dir, 'missing.yaml'), { client })).rejects.toMatchObject({ code: 'INVALID_POLICY' });
+  });
+
+  it('should describe every PolicyConfig option in the schema', () => {
+    const documented = Object.keys(POLICY_SCHEMA.properties!.policy.properties!);
+    expect(documented).toEqual(expect.arrayContaining(Object.keys(new PolicyEnforcer(client).getConfig())));
+  });
+});
@@ -3,8 +3,9 @@
  */
 
 import { PolicyEnforcer, createSecurePolicy, createLenientPolicy } from '../src/policy';
+import { BUILT_IN_POLICY_RULES } from '../src/policy-rules';
 import { ModelSignatureClient } from '../src/client';
-import { PolicyViolationError, VerificationResult } from '../src/types';
+import { PolicyConfig, PolicyViolationError, PolicyRule, VerificationResult } from '../src/types';
 
 const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
 
@@ -33,7 +34,7 @@ describe('PolicyEnforcer', () => {
       .replace(/\+/g, '-')
       .replace(/\//g, '_')
       .replace(/=/g, '');
-    return `header.${encodedPayload}.signature`;
+    return `eyJhbGciOiJIUzI1NiJ9.${encodedPayload}.c2lnbmF0dXJl`;
   };
 
   const mockVerificationResponse = (overrides: Partial<VerificationResult> = {}): VerificationResult => ({
@@ -227,14 +228,187 @@ describe('PolicyEnforcer', () => {
     });
 
     it('should handle verification errors gracefully', async () => {
-      const enforcer = new PolicyEnforcer(client, { failClosed: false });
+      const enforcer = new PolicyEnforcer(new ModelSignatureClient({ retries: 0 }), { failClosed: false });
       const token = createValidToken();
 
-      mockFetch.mockRejectedValueOnce(new Error('Network error'));
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        json: async () => ({ detail: 'Malformed request' })
+      } as Response);
 
       const result = await enforcer.enforcePolicy(token);
       expect(result.allowed).toBe(false);
-      expect(result.reasons).toContain('Verification request failed: Network error');
+      expect(result.degraded).toBeUndefined();
+      expect(result.reasons).toContain('Verification request failed: Malformed request');
+    });
+  });
+
+  describe('clock skew', () => {
+    const issuedAt = 1_700_000_000;
+    const clockAt = (seconds: number) => ({ now: () => seconds * 1000 });
+
+    const enforce = (enforcer: PolicyEnforcer, claims: Record<string, number>) => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockVerificationResponse({ claims: { ...mockVerificationResponse().claims!, ...claims } })
+      } as Response);
+      return enforcer.enforcePolicy(createValidToken(claims));
+    };
+
+    it('should accept tokens issued slightly ahead of the local clock', async () => {
+      const enforcer = new PolicyEnforcer(client, { failClosed: false }, { clock: clockAt(issuedAt - 3) });
+
+      const result = await enforce(enforcer, { iat: issuedAt, exp: issuedAt + 900 });
+      expect(result.allowed).toBe(true);
+    });
+
+    it('should report tokens issued in the future beyond the tolerance', async () => {
+      const enforcer = new PolicyEnforcer(client, { failClosed: false, clockTolerance: 10 }, { clock: clockAt(issuedAt - 60) });
+      const decisions: string[] = [];
+      client.on('policy:decision', event => decisions.push(...event.violations.map(v => v.code)));
+
+      const result = await enforce(enforcer, { iat: issuedAt, exp: issuedAt + 900 });
+      expect(result.reasons).toEqual(['Token issued in the future: iat is 60s ahead (tolerance 10s)']);
+      expect(decisions).toEqual(['TOKEN_ISSUED_IN_FUTURE']);
+    });
+
+    it('should enforce nbf and use the client clock by default', async () => {
+      const skewed = new ModelSignatureClient({ clock: clockAt(issuedAt), clockTolerance: 0 });
+      const enforcer = new PolicyEnforcer(skewed, { failClosed: false });
+
+      const result = await enforce(enforcer, { iat: issuedAt, nbf: issuedAt + 30, exp: issuedAt + 900 });
+      expect(result.reasons).toEqual(['Token not valid for another 30s']);
+    });
+  });
+
+  describe('verification cache', () => {
+    it('should serve repeated checks of the same token from the cache', async () => {
+      const token = createValidToken();
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockVerificationResponse()
+      } as Response);
+
+      const first = await enforcer.enforcePolicy(token);
+      const second = await enforcer.enforcePolicy(token);
+      expect(first.allowed).toBe(true);
+      expect(second.allowed).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(enforcer.getCacheStats()).toEqual({ hits: 1, misses: 1 });
+    });
+
+    it('should not cache when disabled', async () => {
+      const enforcer = new PolicyEnforcer(client, {}, { cache: false });
+      const token = createValidToken();
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => mockVerificationResponse() } as Response)
+        .mockResolvedValueOnce({ ok: true, json: async () => mockVerificationResponse() } as Response);
+
+      await enforcer.enforcePolicy(token);
+      await enforcer.enforcePolicy(token);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(enforcer.getCacheStats()).toBeNull();
+    });
+  });
+
+  describe('API unavailable', () => {
+    const openCircuit = async (client: ModelSignatureClient) => {
+      mockFetch.mockRejectedValueOnce(new Error('ECONNREFUSED'));
+      await client.verifyToken(createValidToken({ jti: 'warmup' })).catch(() => undefined);
+      expect(client.getCircuitState()).toBe('open');
+      mockFetch.mockClear();
+    };
+
+    let client: ModelSignatureClient;
+
+    beforeEach(() => {
+      client = new ModelSignatureClient({ retries: 0, circuitBreaker: { failureThreshold: 1, resetTimeout: 60000 } });
+    });
+
+    it('should deny immediately in fail-closed mode', async () => {
+      const enforcer = new PolicyEnforcer(client, { failClosed: true });
+      await openCircuit(client);
+
+      const error = await enforcer.enforcePolicy(createValidToken()).catch(e => e);
+      expect(error).toBeInstanceOf(PolicyViolationError);
+      expect(error.violations[0]).toMatch(/^API_UNAVAILABLE/);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should allow with a recorded reason in fail-open mode', async () => {
+      const enforcer = new PolicyEnforcer(client, { failClosed: false });
+      await openCircuit(client);
+
+      const result = await enforcer.enforcePolicy(createValidToken());
+      expect(result.allowed).toBe(true);
+      expect(result.degraded?.reason).toBe('API_UNAVAILABLE');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should treat exhausted transient failures like an open circuit', async () => {
+      const tolerant = new ModelSignatureClient({ retries: 0, circuitBreaker: { failureThreshold: 5 } });
+      const enforcer = new PolicyEnforcer(tolerant, { failClosed: false });
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Service Unavailable', json: async () => ({}) } as Response);
+
+      const result = await enforcer.enforcePolicy(createValidToken());
+      expect(tolerant.getCircuitState()).toBe('closed');
+      expect(result.allowed).toBe(true);
+      expect(result.degraded?.reason).toBe('API_UNAVAILABLE');
+
+      mockFetch.mockRejectedValueOnce(new Error('ECONNREFUSED'));
+      const error = await new PolicyEnforcer(tolerant, { failClosed: true }).enforcePolicy(createValidToken()).catch(e => e);
+      expect(error).toBeInstanceOf(PolicyViolationError);
+      expect(error.violations[0]).toMatch(/^API_UNAVAILABLE/);
+    });
+
+    it('should not let quickCheck allow tokens on a fail-closed enforcer', async () => {
+      const enforcer = createSecurePolicy(client);
+      await openCircuit(client);
+
+      expect(await enforcer.quickCheck(createValidToken({ deployment_id: 'dep', model_digest: 'sha256:abc' }))).toBe(false);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should reject instead of deciding when the check is aborted', async () => {
+      const enforcer = new PolicyEnforcer(client, { failClosed: false });
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(enforcer.enforcePolicy(createValidToken(), { signal: controller.signal })).rejects.toMatchObject({
+        code: 'ABORTED'
+      });
+      await expect(enforcer.quickCheck(createValidToken(), {}, { signal: controller.signal })).rejects.toMatchObject({
+        code: 'ABORTED'
+      });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('enforcePolicyBatch', () => {
+    it('should report results and violations per token', async () => {
+      const enforcer = new PolicyEnforcer(client, { requireDeploymentId: true, failClosed: true });
+      const withDeployment = createValidToken({ jti: 'jti-1', deployment_id: 'dep-1' });
+      const withoutDeployment = createValidToken({ jti: 'jti-2' });
+
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => mockVerificationResponse({
+            claims: { ...mockVerificationResponse().claims!, jti: 'jti-1', deployment_id: 'dep-1' }
+          })
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => mockVerificationResponse({ claims: { ...mockVerificationResponse().claims!, jti: 'jti-2' } })
+        } as Response);
+
+      const results = await enforcer.enforcePolicyBatch([withDeployment, withoutDeployment], { concurrency: 2 });
+      expect(results[0].result?.allowed).toBe(true);
+      expect(results[1].error).toBeInstanceOf(PolicyViolationError);
     });
   });
 
@@ -284,6 +458,307 @@ describe('PolicyEnforcer', () => {
     });
   });
 
+  describe('provider and model patterns', () => {
+    const check = async (config: PolicyConfig, overrides: Partial<VerificationResult> = {}) => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockVerificationResponse(overrides)
+      } as Response);
+      return new PolicyEnforcer(client, { ...config, failClosed: false }).enforcePolicy(createValidToken());
+    };
+
+    it('should match allow lists with globs and regexes', async () => {
+      expect((await check({ allowedProviders: ['test-*'], allowedModels: ['/^test-(model|other)$/'] })).allowed).toBe(true);
+      expect((await check({ allowedModels: ['other-*'] })).reasons).toEqual(["Model 'test-model' is not in allowed list"]);
+    });
+
+    it('should match models by name and version', async () => {
+      expect((await check({ allowedModels: ['Test Model'] })).allowed).toBe(true);
+      expect((await check({ allowedModels: ['test-model@1.*'] })).allowed).toBe(true);
+      expect((await check({ allowedModels: ['test-model@2.*'] })).allowed).toBe(false);
+    });
+
+    it('should let deny lists win over allow lists', async () => {
+      const result = await check({
+        allowedProviders: ['*'],
+        allowedModels: ['test-*'],
+        deniedModels: ['test-model@1.0.0']
+      });
+      expect(result.allowed).toBe(false);
+      expect(result.violations).toEqual([expect.objectContaining({
+        code: 'MODEL_DENIED',
+        ruleId: 'denied-models',
+        message: "Model 'test-model' is denied (matches 'test-model@1.0.0')"
+      })]);
+      expect((await check({ deniedProviders: ['/^test-/'] })).reasons).toEqual([
+        "Provider 'test-provider' is denied (matches '/^test-/')"
+      ]);
+    });
+
+    it('should apply allow lists keyed by provider', async () => {
+      const allowedModelsByProvider = { 'test-provider': ['test-*'], 'other-*': ['*'] };
+      expect((await check({ allowedModelsByProvider })).allowed).toBe(true);
+
+      const wrongModel = await check({ allowedModelsByProvider }, { model: { id: 'gpt-4', name: 'GPT-4', version: '1' } });
+      expect(wrongModel.violations).toEqual([expect.objectContaining({
+        code: 'MODEL_NOT_ALLOWED_FOR_PROVIDER',
+        expected: ['test-*'],
+        actual: 'gpt-4'
+      })]);
+
+      const unlisted = await check({ allowedModelsByProvider: { 'other-*': ['*'] } });
+      expect(unlisted.reasons).toEqual(["Model 'test-model' is not allowed for provider 'test-provider'"]);
+    });
+  });
+
+  describe('trust signals', () => {
+    const check = async (config: PolicyConfig, overrides: Partial<VerificationResult> = {}) => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockVerificationResponse(overrides)
+      } as Response);
+      return new PolicyEnforcer(client, { ...config, failClosed: false }).enforcePolicy(createValidToken());
+    };
+    const provider = { id: 'test-provider', name: 'Test Provider', verification_level: 'verified', domain_verified: true };
+    const model = {
+      id: 'test-model',
+      name: 'Test Model',
+      version: '1.0.0',
+      type: 'llm',
+      capabilities: ['chat', 'tools'],
+      trust_level: 'medium',
+      bundle_last_checked: new Date(Date.now() - 3600 * 1000).toISOString()
+    };
+
+    it('should allow providers and models that meet every requirement', async () => {
+      const result = await check({
+        minVerificationLevel: 'basic',
+        requireVerifiedDomain: true,
+        requiredCapabilities: ['tools'],
+        minTrustLevel: 'medium',
+        maxBundleCheckAge: 86400,
+        allowedModelTypes: ['llm']
+      }, { provider, model });
+      expect(result.allowed).toBe(true);
+    });
+
+    it('should compare levels on ordered scales', async () => {
+      const tooLow = await check({ minVerificationLevel: 'enhanced', minTrustLevel: 'high' }, { provider, model });
+      expect(tooLow.violations.map(v => [v.code, v.expected, v.actual])).toEqual([
+        ['VERIFICATION_LEVEL_TOO_LOW', 'enhanced', 'verified'],
+        ['TRUST_LEVEL_TOO_LOW', 'high', 'medium']
+      ]);
+
+      const custom = await check({ minTrustLevel: 'gold', trustLevels: ['bronze', 'silver', 'gold'] }, { model });
+      expect(custom.reasons).toEqual(["Model trust level 'medium' is not on the scale bronze < silver < gold"]);
+    });
+
+    it('should require a verified domain, capabilities and a fresh bundle check', async () => {
+      const stale = { ...model, bundle_last_checked: new Date(Date.now() - 7200 * 1000).toISOString() };
+      const result = await check(
+        { requireVerifiedDomain: true, requiredCapabilities: ['chat', 'vision'], maxBundleCheckAge: 3600 },
+        { provider: { ...provider, domain_verified: false }, model: stale }
+      );
+      expect(result.violations.map(v => v.code)).toEqual(['DOMAIN_NOT_VERIFIED', 'CAPABILITIES_MISSING', 'BUNDLE_CHECK_STALE']);
+      expect(result.reasons[1]).toBe("Model 'test-model' lacks required capabilities: vision");
+      expect(result.violations[2].actual).toBeGreaterThanOrEqual(7200);
+    });
+
+    it('should reject minimum levels that are not on the scale up front', () => {
+      expect(() => new PolicyEnforcer(client, { minTrustLevel: 'hihg' })).toThrow(
+        expect.objectContaining({ code: 'INVALID_CONFIG', message: expect.stringContaining('policy.minTrustLevel must be one of') })
+      );
+      expect(() => enforcer.updateConfig({ minVerificationLevel: 'gold' })).toThrow('policy.minVerificationLevel');
+      expect(enforcer.getConfig().minVerificationLevel).toBeUndefined();
+    });
+
+    it('should look up missing capabilities and trust level in the registry', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => mockVerificationResponse() } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ id: 'test-model', name: 'Test Model', version: '1.0.0', capabilities: ['chat'], trust_level: 'high' })
+        } as Response);
+      const enforcer = new PolicyEnforcer(client, { requiredCapabilities: ['chat'], minTrustLevel: 'medium' });
+
+      expect((await enforcer.enforcePolicy(createValidToken())).allowed).toBe(true);
+      expect(mockFetch.mock.calls[1][0]).toContain('/api/v1/public/models/test-model');
+    });
+
+    it('should deny when trust signals are missing', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => mockVerificationResponse() } as Response)
+        .mockRejectedValueOnce(new Error('registry down'));
+      const enforcer = new PolicyEnforcer(
+        new ModelSignatureClient({ retries: 0 }),
+        { minVerificationLevel: 'basic', minTrustLevel: 'low', maxBundleCheckAge: 60, failClosed: false }
+      );
+      const result = await enforcer.enforcePolicy(createValidToken());
+      expect(result.violations.map(v => v.code)).toEqual([
+        'VERIFICATION_LEVEL_UNKNOWN',
+        'TRUST_LEVEL_UNKNOWN',
+        'BUNDLE_CHECK_AGE_UNKNOWN'
+      ]);
+    });
+  });
+
+  describe('custom rules', () => {
+    const respond = (overrides: Partial<VerificationResult> = {}) => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockVerificationResponse(overrides)
+      } as Response);
+    };
+
+    const prodOnly: PolicyRule = {
+      id: 'prod-deployments',
+      description: 'Only tokens from deployments tagged prod',
+      severity: 'error',
+      evaluate: async ({ claims }) => {
+        if (!claims.deployment_id?.startsWith('prod-')) {
+          return { code: 'DEPLOYMENT_NOT_PROD', message: 'Deployment is not tagged prod' };
+        }
+      }
+    };
+
+    it('should run custom rules after the built-in rules', async () => {
+      const enforcer = new PolicyEnforcer(client, { requireDeploymentId: true, failClosed: false }, { rules: [prodOnly] });
+      const decisions: any[] = [];
+      client.events.on('policy:decision', event => decisions.push(event));
+      respond();
+
+      const result = await enforcer.enforcePolicy(createValidToken());
+      expect(result.allowed).toBe(false);
+      expect(result.reasons).toEqual([
+        'Deployment ID is required but not present in token',
+        'Deployment is not tagged prod'
+      ]);
+      expect(decisions[0].violations.map((v: any) => v.code)).toEqual(['DEPLOYMENT_ID_REQUIRED', 'DEPLOYMENT_NOT_PROD']);
+      expect(enforcer.getRules().map(rule => rule.id)).toEqual([...BUILT_IN_POLICY_RULES.map(rule => rule.id), 'prod-deployments']);
+    });
+
+    it('should pass the token, claims, verification and config to rules', async () => {
+      const evaluate = jest.fn().mockReturnValue(null);
+      enforcer.addRule({ id: 'spy', description: 'Records its input', severity: 'error', evaluate });
+      const token = createValidToken();
+      respond();
+
+      expect((await enforcer.enforcePolicy(token)).allowed).toBe(true);
+      expect(evaluate).toHaveBeenCalledWith(expect.objectContaining({
+        token,
+        claims: expect.objectContaining({ model_id: 'test-model' }),
+        verification: expect.objectContaining({ valid: true }),
+        config: expect.objectContaining({ maxTokenAge: 900 })
+      }));
+    });
+
+    it('should report warnings without denying', async () => {
+      enforcer.addRule({
+        id: 'license',
+        description: 'Warn on unapproved licenses',
+        severity: 'warning',
+        evaluate: () => [{ code: 'LICENSE_UNAPPROVED', message: 'License is not on the approved list' }]
+      });
+      respond();
+
+      const result = await enforcer.enforcePolicy(createValidToken());
+      expect(result.allowed).toBe(true);
+      expect(result.warnings).toEqual(['License is not on the approved list']);
+    });
+
+    it('should deny when a rule throws', async () => {
+      enforcer.addRule({
+        id: 'broken',
+        description: 'Always throws',
+        severity: 'error',
+        evaluate: () => {
+          throw new Error('lookup failed');
+        }
+      });
+      respond();
+
+      await expect(enforcer.enforcePolicy(createValidToken())).rejects.toThrow("Rule 'broken' failed: lookup failed");
+    });
+
+    it('should let built-in rules be removed or replaced', async () => {
+      enforcer.updateConfig({ allowedProviders: ['someone-else'] });
+      expect(enforcer.removeRule('allowed-providers')).toBe(true);
+      expect(enforcer.removeRule('allowed-providers')).toBe(false);
+      respond();
+
+      expect((await enforcer.enforcePolicy(createValidToken())).allowed).toBe(true);
+    });
+
+    it('should reject malformed and duplicate rules', () => {
+      expect(() => enforcer.addRule({ ...prodOnly, severity: 'fatal' as any, evaluate: undefined as any }))
+        .toThrow("Invalid policy rule: severity must be 'error' or 'warning'; evaluate must be a function");
+      expect(() => enforcer.addRule({ ...prodOnly, id: 'max-token-age' }))
+        .toThrow("a rule with id 'max-token-age' is already registered");
+    });
+
+    it('should keep custom rules in quickCheck', async () => {
+      enforcer.addRule(prodOnly);
+      respond();
+
+      expect(await enforcer.quickCheck(createValidToken())).toBe(false);
+    });
+  });
+
+  describe('structured violations', () => {
+    it('should describe each violation with its code, rule, expected and actual values', async () => {
+      const token = createValidToken({ iat: Math.floor(Date.now() / 1000) - 950 });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockVerificationResponse()
+      } as Response);
+
+      const error = await enforcer.enforcePolicy(token).catch(e => e) as PolicyViolationError;
+      expect(error).toBeInstanceOf(PolicyViolationError);
+      expect(error.policyViolations).toEqual([{
+        code: 'TOKEN_TOO_OLD',
+        ruleId: 'max-token-age',
+        severity: 'error',
+        expected: 900,
+        actual: 950,
+        message: 'Token is too old: 950s > 900s'
+      }]);
+      expect(error.violations).toEqual(error.policyViolations.map(v => v.message));
+    });
+
+    it('should keep reasons and warnings derivable from the violations', async () => {
+      const enforcer = new PolicyEnforcer(client, { allowedModels: ['other-model'], failClosed: false });
+      enforcer.addRule({
+        id: 'license',
+        description: 'Warn on unapproved licenses',
+        severity: 'warning',
+        evaluate: () => ({ code: 'LICENSE_UNAPPROVED', message: 'License is not approved', expected: ['mit'], actual: 'gpl' })
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockVerificationResponse()
+      } as Response);
+
+      const result = await enforcer.enforcePolicy(createValidToken());
+      expect(result.violations.map(v => [v.ruleId, v.severity, v.actual])).toEqual([
+        ['allowed-models', 'error', 'test-model'],
+        ['license', 'warning', 'gpl']
+      ]);
+      expect(result.reasons).toEqual(["Model 'test-model' is not in allowed list"]);
+      expect(result.warnings).toEqual(['License is not approved']);
+    });
+
+    it('should attribute verification failures to the enforcer', async () => {
+      const enforcer = new PolicyEnforcer(client, { failClosed: false });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ valid: false, error: 'Token expired' })
+      } as Response);
+
+      const result = await enforcer.enforcePolicy(createValidToken());
+      expect(result.violations).toEqual([expect.objectContaining({ code: 'VERIFICATION_FAILED', ruleId: 'verification' })]);
+    });
+  });
+
   describe('configuration', () => {
     it('should update configuration', () => {
       enforcer.updateConfig({ requireDeploymentId: true });
@@ -0,0 +1,75 @@
+/**
+ * Tests for response schema validation
+ */
+
+import {
+  object,
+  string,
+  number,
+  optional,
+  array,
+  oneOf,
+  SchemaError,
+  validateResponse,
+  verificationResult,
+  paginated,
+  searchResult
+} from '../src/schema';
+import { ModelSignatureError } from '../src/types';
+
+describe('Schema', () => {
+  describe('validators', () => {
+    const item = object<{ id: string; count?: number; tags: string[] }>({
+      id: string,
+      count: optional(number),
+      tags: array(string)
+    });
+
+    it('should accept matching values and keep extra fields', () => {
+      const value = { id: 'a', tags: ['x'], extra: true };
+      expect(item(value, 'value')).toBe(value);
+    });
+
+    it('should treat null as missing for optional fields', () => {
+      expect(() => item({ id: 'a', count: null, tags: [] }, 'value')).not.toThrow();
+    });
+
+    it('should report the failing path', () => {
+      expect(() => item({ id: 'a', tags: ['x', 1] }, 'value')).toThrow(new SchemaError('value.tags[1]', 'string', 1));
+    });
+
+    it('should restrict enumerations', () => {
+      expect(() => oneOf('a', 'b')('c', 'value')).toThrow("value: expected one of 'a', 'b', got string");
+    });
+  });
+
+  describe('response schemas', () => {
+    it('should validate verification results', () => {
+      expect(verificationResult({ valid: false, error: 'Token expired' }, 'response')).toEqual({
+        valid: false,
+        error: 'Token expired'
+      });
+      expect(() => verificationResult({ valid: true, claims: { model_id: 'm' } }, 'response'))
+        .toThrow('response.claims.provider_id: expected string, got undefined');
+    });
+
+    it('should validate paginated search results', () => {
+      const page = paginated(searchResult);
+      expect(() => page({ items: [{ type: 'dataset', id: '1', name: 'x' }] }, 'response'))
+        .toThrow(SchemaError);
+    });
+  });
+
+  describe('validateResponse', () => {
+    it('should throw INVALID_RESPONSE_SCHEMA errors', () => {
+      try {
+        validateResponse(verificationResult, null, '/api/v1/jwt/verify');
+        fail('expected validation to throw');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ModelSignatureError);
+        expect((error as ModelSignatureError).code).toBe('INVALID_RESPONSE_SCHEMA');
+        expect((error as Error).message).toBe('Invalid response from /api/v1/jwt/verify: response: expected object, got null');
+      }
+    });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Tests for lifecycle events and telemetry adapters
+ */
+
+import { ModelSignatureClient } from '../src/client';
+import { PolicyEnforcer } from '../src/policy';
+import { EventBus } from '../src/events';
+import { instrumentOpenTelemetry, MetricsCollector, OTelSpan } from '../src/telemetry';
+
+const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+
+describe('Telemetry', () => {
+  const now = () => Math.floor(Date.now() / 1000);
+  const claims = { model_id: 'm', provider_id: 'p', user_fp: 'fp', iat: now() - 10, exp: now() + 600, jti: 'jti-1' };
+  const token = `eyJhbGciOiJFUzI1NiJ9.${Buffer.from(JSON.stringify(claims)).toString('base64url')}.c2ln`;
+
+  const okResponse = (body: any) => ({ ok: true, status: 200, json: async () => body } as Response);
+
+  afterEach(() => {
+    mockFetch.mockReset();
+  });
+
+  describe('EventBus', () => {
+    it('should isolate listener failures and support unsubscribing', () => {
+      const bus = new EventBus();
+      const listener = jest.fn();
+      bus.on('cache:hit', () => {
+        throw new Error('broken listener');
+      });
+      const off = bus.on('cache:hit', listener);
+
+      bus.emit('cache:hit', { durationMs: 0 });
+      off();
+      bus.emit('cache:hit', { durationMs: 0 });
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('client events', () => {
+    it('should emit start, retry and end events with durations', async () => {
+      const client = new ModelSignatureClient({ retryPolicy: { baseDelay: 1, maxDelay: 1 } });
+      const events: string[] = [];
+      client.on('request:start', e => events.push(`start:${e.endpoint}:${e.attempt}`));
+      client.on('request:retry', e => events.push(`retry:${e.attempt}`));
+      client.on('request:end', e => events.push(`end:${e.outcome}:${e.status ?? 'none'}`));
+
+      mockFetch
+        .mockRejectedValueOnce(new Error('ECONNRESET'))
+        .mockResolvedValueOnce(okResponse({ valid: true }));
+
+      await client.verifyToken(token);
+      expect(events).toEqual([
+        'start:/api/v1/jwt/verify:0',
+        'end:error:none',
+        'retry:1',
+        'start:/api/v1/jwt/verify:1',
+        'end:success:200'
+      ]);
+    });
+
+    it('should hide the API key and only change the request through setHeader', async () => {
+      const client = new ModelSignatureClient({ apiKey: 'secret-key' });
+      const seen: Array<Record<string, string>> = [];
+      client.on('request:start', (event) => {
+        seen.push({ ...event.request.headers });
+        event.request.headers['X-Injected'] = 'yes';
+        event.setHeader('Authorization', 'Bearer attacker');
+        event.setHeader('X-Trace', 'abc');
+      });
+      client.on('request:end', event => seen.push({ ...event.request.headers }));
+      mockFetch.mockResolvedValueOnce(okResponse({ valid: true }));
+
+      await client.verifyToken(token);
+      expect(seen[0].Authorization).toBe('[REDACTED]');
+      expect(seen[1]).toMatchObject({ Authorization: '[REDACTED]', 'X-Trace': 'abc' });
+      const sent = mockFetch.mock.calls[0][1]!.headers as Record<string, string>;
+      expect(sent).toMatchObject({ Authorization: 'Bearer secret-key', 'X-Trace': 'abc' });
+      expect(sent).not.toHaveProperty('X-Injected');
+    });
+  });
+
+  describe('instrumentOpenTelemetry', () => {
+    const createTracer = () => {
+      const spans: Array<{ name: string; status?: number; ended: boolean; attributes: Record<string, unknown> }> = [];
+      const tracer = {
+        startSpan: jest.fn((name: string) => {
+          const record = { name, status: undefined as number | undefined, ended: false, attributes: {} as Record<string, unknown> };
+          spans.push(record);
+          const span: OTelSpan = {
+            spanContext: () => ({ traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: '00f067aa0ba902b7', traceFlags: 1 }),
+            setAttribute: (key, value) => (record.attributes[key] = value),
+            setStatus: ({ code }) => (record.status = code),
+            recordException: () => undefined,
+            end: () => (record.ended = true)
+          };
+          return span;
+        })
+      };
+      return { tracer, spans };
+    };
+
+    it('should create a span per attempt and send traceparent', async () => {
+      const client = new ModelSignatureClient();
+      const { tracer, spans } = createTracer();
+      instrumentOpenTelemetry(client, { tracer });
+      mockFetch.mockResolvedValueOnce(okResponse({ valid: true }));
+
+      await client.verifyToken(token);
+      expect(mockFetch.mock.calls[0][1]!.headers).toMatchObject({
+        traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01'
+      });
+      expect(spans).toEqual([
+        { name: 'ModelSignature POST /api/v1/jwt/verify', status: 1, ended: true, attributes: { 'http.response.status_code': 200 } }
+      ]);
+    });
+
+    it('should stop tracing once removed', async () => {
+      const client = new ModelSignatureClient();
+      const { tracer } = createTracer();
+      instrumentOpenTelemetry(client, { tracer })();
+      mockFetch.mockResolvedValueOnce(okResponse({ valid: true }));
+
+      await client.verifyToken(token);
+      expect(tracer.startSpan).not.toHaveBeenCalled();
+      expect(mockFetch.mock.calls[0][1]!.headers).not.toHaveProperty('traceparent');
+    });
+  });
+
+  describe('MetricsCollector', () => {
+    it('should count decisions per violation type and forward to the sink', async () => {
+      const client = new ModelSignatureClient();
+      const enforcer = new PolicyEnforcer(client, { failClosed: false, allowedProviders: ['trusted'] });
+      const sink = { increment: jest.fn() };
+      const metrics = new MetricsCollector(sink);
+      metrics.attach(client);
+
+      mockFetch.mockResolvedValue(okResponse({ valid: true, claims, provider: { id: 'p', name: 'P' } }));
+      await enforcer.enforcePolicy(token);
+      await enforcer.enforcePolicy(token);
+      enforcer.updateConfig({ allowedProviders: [] });
+      await enforcer.enforcePolicy(token);
+
+      expect(metrics.getSnapshot()).toMatchObject({
+        allowed: 1,
+        denied: 2,
+        violations: { PROVIDER_NOT_ALLOWED: 2 },
+        cache: { hits: 2, misses: 1 }
+      });
+      expect(sink.increment).toHaveBeenCalledWith('modelsignature.policy.violations', { type: 'PROVIDER_NOT_ALLOWED' });
+    });
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Tests for the mock ModelSignature API
+ */
+
+import * as http from 'http';
+import { ModelSignatureClient } from '../src/client';
+import { PolicyEnforcer } from '../src/policy';
+import { NotFoundError, NetworkError, RateLimitError, ServerError, AuthenticationError } from '../src/types';
+import { createMockServer, MockModelSignatureServer } from '../src/testing';
+
+describe('MockModelSignatureServer', () => {
+  let server: MockModelSignatureServer;
+  let client: ModelSignatureClient;
+
+  beforeEach(() => {
+    server = createMockServer({
+      apiKey: 'test-key',
+      models: [{ id: 'gpt-test', name: 'GPT Test', version: '2.0.0', provider_id: 'acme', bundle_status: 'verified' }],
+      providers: [{ id: 'acme', name: 'Acme AI', domain_verified: true }]
+    });
+    client = new ModelSignatureClient({
+      apiKey: 'test-key',
+      apiBaseUrl: server.issuer,
+      fetch: server.fetch,
+      retryPolicy: { baseDelay: 1, maxDelay: 1 }
+    });
+  });
+
+  it('should verify minted tokens online and offline', async () => {
+    const token = await server.mintToken({ model_id: 'gpt-test', provider_id: 'acme', deployment_id: 'dep-1' });
+
+    const online = await client.verifyToken(token);
+    expect(online.valid).toBe(true);
+    expect(online.model?.name).toBe('GPT Test');
+    expect(online.bundle_check?.status).toBe('verified');
+
+    const offline = await client.verifyTokenLocally(token);
+    expect(offline.valid).toBe(true);
+    expect(offline.claims?.deployment_id).toBe('dep-1');
+  });
+
+  it('should reject forged, expired and revoked tokens', async () => {
+    const forged = await server.mintToken({}, { signature: 'Zm9yZ2Vk' });
+    const expired = await server.mintToken({}, { ttl: -10 });
+    const revoked = await server.mintToken({ jti: 'revoked-jti' });
+    server.revokeToken('revoked-jti');
+
+    expect(await client.verifyToken(forged)).toEqual({ valid: false, error: 'Invalid token signature' });
+    expect(await client.verifyToken(expired)).toEqual({ valid: false, error: 'Token expired' });
+    expect(await client.verifyToken(revoked)).toEqual({ valid: false, error: 'Token revoked' });
+  });
+
+  it('should bind responses to a new token', async () => {
+    const token = await server.mintToken({ model_id: 'gpt-test' });
+    const binding = await client.bindResponse(token, 'Hello');
+
+    const verification = await client.verifyToken(binding.bound_token);
+    expect(verification.claims).toMatchObject({ model_id: 'gpt-test', bound_to_response: true });
+  });
+
+  it('should record the canonicalization profile of a binding', async () => {
+    const token = await server.mintToken({ model_id: 'gpt-test' });
+    const binding = await client.bindResponse(token, '{ "b": 1, "a": 2 }', { canonicalization: 'json-canonical' });
+
+    expect(binding.canonicalization).toBe('json-canonical');
+    expect(server.requests[0].body).toMatchObject({ response_text: '{"a":2,"b":1}', canonicalization: 'json-canonical' });
+    const verification = await client.verifyToken(binding.bound_token);
+    expect(verification.claims?.response_canonicalization).toBe('json-canonical');
+  });
+
+  it('should keep deployments in memory', async () => {
+    const deployment = await client.registerDeployment({
+      name: 'prod',
+      endpoint_url: 'https://api.example.com',
+      certificate_fingerprint: 'sha256:abc'
+    });
+    await client.updateDeploymentStatus(deployment.id, 'paused');
+    expect(await client.listDeployments()).toEqual([expect.objectContaining({ id: deployment.id, status: 'paused' })]);
+
+    await client.deleteDeployment(deployment.id);
+    await expect(client.deleteDeployment(deployment.id)).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('should serve registered models through the public registry and search', async () => {
+    await client.registerModel({ model_id: 'llama-test', name: 'Llama Test' });
+
+    const models = [];
+    for await (const model of client.iteratePublicModels({ pageSize: 1 })) {
+      models.push(model.id);
+    }
+    expect(models).toEqual(['gpt-test', 'llama-test']);
+    expect((await client.getPublicProvider('acme')).model_count).toBe(1);
+    expect((await client.search('acme')).items).toEqual([expect.objectContaining({ type: 'provider', id: 'acme' })]);
+  });
+
+  it('should require the API key on private routes', async () => {
+    const anonymous = new ModelSignatureClient({ apiBaseUrl: server.issuer, fetch: server.fetch });
+    await expect(anonymous.listDeployments()).rejects.toBeInstanceOf(AuthenticationError);
+  });
+
+  describe('token transport', () => {
+    it('should keep tokens out of URLs and redact them in events', async () => {
+      const token = await server.mintToken({ jti: 'jti-1' });
+      const urls: string[] = [];
+      client.on('request:start', event => urls.push(event.request.url, String(event.request.body)));
+
+      await client.verifyToken(token);
+      await client.bindResponse(token, 'Hello');
+
+      expect(server.requests.map(r => r.path)).toEqual(['/api/v1/jwt/verify', '/api/v1/jwt/bind-response']);
+      expect(urls.join(' ')).not.toContain(token);
+      expect(urls.join(' ')).toContain('(jti=jti-1)');
+    });
+
+    it('should fall back to the token in the path on older servers', async () => {
+      server = createMockServer({ apiKey: 'test-key', legacyTokenRoutes: true });
+      client.updateConfig({ fetch: server.fetch });
+      const token = await server.mintToken();
+
+      expect((await client.verifyToken(token)).valid).toBe(true);
+      expect((await client.verifyToken(await server.mintToken())).valid).toBe(true);
+      expect(server.requests.map(r => `${r.method} ${r.path.split('/').slice(0, 5).join('/')}`)).toEqual([
+        'POST /api/v1/jwt/verify',
+        'GET /api/v1/jwt/verify',
+        'GET /api/v1/jwt/verify'
+      ]);
+    });
+
+    it('should not fall back when body transport is required', async () => {
+      server = createMockServer({ legacyTokenRoutes: true });
+      const strict = new ModelSignatureClient({ apiBaseUrl: server.issuer, fetch: server.fetch, tokenTransport: 'body' });
+
+      await expect(strict.verifyToken(await server.mintToken())).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it('should stay on the body transport after a 404 about the token', async () => {
+      const token = await server.mintToken();
+      server.injectFault({ route: '/api/v1/jwt/verify', status: 404, body: { detail: 'Token not found' }, times: 1 });
+
+      await expect(client.verifyToken(token)).rejects.toBeInstanceOf(NotFoundError);
+      expect((await client.verifyToken(token)).valid).toBe(true);
+      expect(server.requests.map(r => `${r.method} ${r.path}`)).toEqual([
+        'POST /api/v1/jwt/verify',
+        'POST /api/v1/jwt/verify'
+      ]);
+    });
+
+    it('should redact tokens echoed in error messages', async () => {
+      const token = await server.mintToken({ jti: 'jti-2' });
+      server.injectFault({ status: 400, body: { detail: `Malformed token ${token}` } });
+
+      const error = await client.verifyToken(token).catch(e => e);
+      expect(error.message).not.toContain(token);
+      expect(error.message).toContain('(jti=jti-2)');
+      expect(error.body.detail).toContain('(jti=jti-2)');
+      expect(JSON.stringify(error.body)).not.toContain(token);
+    });
+
+    it('should redact tokens in the causes of network failures', async () => {
+      const token = await server.mintToken({ jti: 'jti-3' });
+      const failing = new ModelSignatureClient({
+        retries: 0,
+        apiBaseUrl: server.issuer,
+        tokenTransport: 'path',
+        fetch: async (url) => {
+          throw Object.assign(new TypeError(`fetch failed: ${url}`), { cause: new Error(`connect ECONNREFUSED ${url}`) });
+        }
+      });
+
+      const error = await failing.verifyToken(token).catch(e => e);
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error.cause).toBeInstanceOf(Error);
+      expect(error.cause.name).toBe('TypeError');
+      expect(error.cause.message).toContain('(jti=jti-3)');
+      expect(`${error.cause.message} ${error.cause.stack} ${error.cause.cause.message}`).not.toContain(token);
+    });
+  });
+
+  describe('faults', () => {
+    it('should inject server errors that the client retries', async () => {
+      server.injectFault({ route: '/api/v1/public/models', status: 503, times: 2 });
+
+      const model = await client.getPublicModel('gpt-test');
+      expect(model.id).toBe('gpt-test');
+      expect(server.requests.filter(r => r.path === '/api/v1/public/models/gpt-test')).toHaveLength(3);
+    });
+
+    it('should inject rate limits with Retry-After', async () => {
+      const strict = new ModelSignatureClient({ retries: 0, apiBaseUrl: server.issuer, fetch: server.fetch });
+      server.injectFault({ status: 429, retryAfter: 3 });
+
+      const error = await strict.getPublicModel('gpt-test').catch(e => e);
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.retryAfter).toBe(3000);
+    });
+
+    it('should inject latency that trips the client timeout', async () => {
+      const impatient = new ModelSignatureClient({ retries: 0, timeout: 20, apiBaseUrl: server.issuer, fetch: server.fetch });
+      server.injectFault({ latency: 1000 });
+
+      await expect(impatient.getPublicModel('gpt-test')).rejects.toMatchObject({ code: 'TIMEOUT' });
+    });
+
+    it('should drive fail-open policy decisions during an outage', async () => {
+      const token = await server.mintToken();
+      const flaky = new ModelSignatureClient({
+        retries: 0,
+        apiBaseUrl: server.issuer,
+        fetch: server.fetch,
+        circuitBreaker: { failureThreshold: 1 }
+      });
+      server.injectFault({ status: 500 });
+
+      await expect(flaky.verifyToken(token)).rejects.toBeInstanceOf(ServerError);
+      const result = await new PolicyEnforcer(flaky, { failClosed: false }).enforcePolicy(token);
+      expect(result.degraded?.reason).toBe('API_UNAVAILABLE');
+    });
+  });
+
+  describe('listen', () => {
+    const get = (url: string) => new Promise<{ status: number; body: any }>((resolve, reject) => {
+      http.get(url, res => {
+        let raw = '';
+        res.on('data', chunk => (raw += chunk));
+        res.on('end', () => resolve({ status: res.statusCode!, body: JSON.parse(raw) }));
+      }).on('error', reject);
+    });
+
+    afterEach(() => server.close());
+
+    it('should serve the same API over HTTP', async () => {
+      const url = await server.listen();
+      const token = await server.mintToken();
+
+      const verified = await get(`${url}/api/v1/jwt/verify/${token}`);
+      expect(verified.status).toBe(200);
+      expect(verified.body.valid).toBe(true);
+      expect((await get(`${url}/api/v1/public/models/missing`)).status).toBe(404);
+    });
+  });
+});